@@ -0,0 +1,91 @@
+import { startOrganize } from "~/background/messages/organize"
+import { isBusy } from "~/background/taskManager"
+import { getSettings, validateSettings } from "~/lib/storage"
+import { getAllTabs, partitionSpecialTabs } from "~/lib/tabs"
+import { isExcludedSite } from "~/lib/rules"
+import type { Settings } from "~/lib/types"
+
+export const AUTO_ORGANIZE_ALARM = "auto-organize"
+
+// When the last automatic run started
+const LAST_RUN_KEY = "last_auto_organize"
+// How often the ungrouped tab count is checked in threshold mode
+const THRESHOLD_CHECK_MINUTES = 1
+// Minimum gap between threshold runs, so tabs a run leaves ungrouped don't retrigger it every check
+const THRESHOLD_MIN_GAP_MINUTES = 10
+// Alarms don't fire exactly on time; a scheduled run this close to due counts as due
+const SCHEDULE_SLACK_MINUTES = 1
+// Seconds without input before the user counts as idle
+const IDLE_DETECTION_SECONDS = 120
+
+const MINUTE_MS = 60 * 1000
+
+async function getLastRunAt(): Promise<number> {
+  const result = await chrome.storage.local.get(LAST_RUN_KEY)
+  const lastRunAt = result[LAST_RUN_KEY]
+  return typeof lastRunAt === "number" ? lastRunAt : 0
+}
+
+async function countUngroupedTabs(settings: Settings): Promise<number> {
+  const tabs = await getAllTabs(settings.windowScope)
+  return partitionSpecialTabs(tabs, settings.specialTabs).organize
+    .filter((tab) => (tab.groupId ?? -1) === -1 && !isExcludedSite(tab, settings.excludedSites))
+    .length
+}
+
+async function isDue(settings: Settings): Promise<boolean> {
+  const sinceLastRun = Date.now() - await getLastRunAt()
+  if (settings.autoOrganize === "schedule") {
+    return sinceLastRun >= (settings.autoOrganizeInterval - SCHEDULE_SLACK_MINUTES) * MINUTE_MS
+  }
+  if (sinceLastRun < THRESHOLD_MIN_GAP_MINUTES * MINUTE_MS) {
+    return false
+  }
+  return await countUngroupedTabs(settings) > settings.autoOrganizeThreshold
+}
+
+/**
+ * Creates, updates or removes the auto-organize alarm to match settings.
+ * An alarm that already has the right period is kept so its countdown
+ * isn't restarted.
+ *
+ * @param settings - Settings with the auto-organize mode and interval
+ */
+export async function syncAutoOrganizeAlarm(settings: Settings): Promise<void> {
+  if (settings.autoOrganize === "off") {
+    await chrome.alarms.clear(AUTO_ORGANIZE_ALARM)
+    return
+  }
+
+  chrome.idle.setDetectionInterval(IDLE_DETECTION_SECONDS)
+  const periodInMinutes = settings.autoOrganize === "schedule"
+    ? settings.autoOrganizeInterval
+    : THRESHOLD_CHECK_MINUTES
+  const existing = await chrome.alarms.get(AUTO_ORGANIZE_ALARM)
+  if (existing?.periodInMinutes === periodInMinutes) return
+  await chrome.alarms.create(AUTO_ORGANIZE_ALARM, { periodInMinutes })
+}
+
+/**
+ * Starts an automatic organize when one is due.
+ *
+ * Called when the alarm fires and when the user goes idle. Does nothing
+ * while a task is running or a proposal awaits review, when the API
+ * isn't usable, or, with `autoOrganizeWhenIdle`, while the user is
+ * active - the run then happens once they go idle.
+ */
+export async function autoOrganizeIfDue(): Promise<void> {
+  const settings = await getSettings()
+  if (settings.autoOrganize === "off" || await isBusy()) return
+  if (!validateSettings(settings).valid) return
+
+  if (settings.autoOrganizeWhenIdle) {
+    const state = await chrome.idle.queryState(IDLE_DETECTION_SECONDS)
+    if (state === "active") return
+  }
+
+  if (!(await isDue(settings))) return
+
+  await chrome.storage.local.set({ [LAST_RUN_KEY]: Date.now() })
+  await startOrganize("schedule")
+}
@@ -0,0 +1,173 @@
+import { startOrganize } from "~/background/messages/organize"
+import { getSettings, saveSettings } from "~/lib/storage"
+import { createTabGroups } from "~/lib/tabs"
+import type { GroupRule } from "~/lib/types"
+
+const MENU_ORGANIZE_SELECTED = "organize-selected"
+const MENU_MOVE_TO_GROUP = "move-to-group"
+const MENU_ALWAYS_GROUP_SITE = "always-group-site"
+const MENU_EXCLUDE_SITE = "exclude-site"
+
+// Submenu item ids are "<parent>:<groupId>"; this one removes the tab from its group
+const UNGROUP_ITEM = "ungroup"
+
+// The page menu and the toolbar icon's menu - Chrome has no tab strip menu for extensions
+const CONTEXTS: chrome.contextMenus.CreateProperties["contexts"] = ["page", "action"]
+
+// Group changes come in bursts (create, then title, then color); rebuild once they settle
+const REFRESH_DELAY_MS = 300
+
+let refreshTimer: ReturnType<typeof setTimeout> | undefined
+let menuUpdates = Promise.resolve()
+
+function siteOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "")
+  } catch {
+    return ""
+  }
+}
+
+// Adds one submenu item per group, or a disabled placeholder when there are none
+function createGroupItems(parentId: string, groups: chrome.tabGroups.TabGroup[]): void {
+  if (groups.length === 0) {
+    chrome.contextMenus.create({
+      id: `${parentId}:empty`,
+      parentId,
+      title: "No groups in this window",
+      enabled: false,
+      contexts: CONTEXTS
+    })
+    return
+  }
+  for (const group of groups) {
+    chrome.contextMenus.create({
+      id: `${parentId}:${group.id}`,
+      parentId,
+      title: group.title || "Untitled group",
+      contexts: CONTEXTS
+    })
+  }
+}
+
+async function buildMenus(): Promise<void> {
+  await chrome.contextMenus.removeAll()
+
+  const window = await chrome.windows.getLastFocused({ windowTypes: ["normal"] }).catch(() => undefined)
+  const groups = window?.id !== undefined ? await chrome.tabGroups.query({ windowId: window.id }) : []
+
+  chrome.contextMenus.create({
+    id: MENU_ORGANIZE_SELECTED,
+    title: "Organize selected tabs only",
+    contexts: CONTEXTS
+  })
+
+  chrome.contextMenus.create({ id: MENU_MOVE_TO_GROUP, title: "Move this tab to group", contexts: CONTEXTS })
+  createGroupItems(MENU_MOVE_TO_GROUP, groups)
+  if (groups.length > 0) {
+    chrome.contextMenus.create({
+      id: `${MENU_MOVE_TO_GROUP}:separator`,
+      parentId: MENU_MOVE_TO_GROUP,
+      type: "separator",
+      contexts: CONTEXTS
+    })
+    chrome.contextMenus.create({
+      id: `${MENU_MOVE_TO_GROUP}:${UNGROUP_ITEM}`,
+      parentId: MENU_MOVE_TO_GROUP,
+      title: "Remove from group",
+      contexts: CONTEXTS
+    })
+  }
+
+  chrome.contextMenus.create({ id: MENU_ALWAYS_GROUP_SITE, title: "Always group this site as", contexts: CONTEXTS })
+  createGroupItems(MENU_ALWAYS_GROUP_SITE, groups)
+
+  chrome.contextMenus.create({
+    id: MENU_EXCLUDE_SITE,
+    title: "Exclude this site from organizing",
+    contexts: CONTEXTS
+  })
+}
+
+/**
+ * Rebuilds the context menus so the group submenus list the groups of the
+ * last focused window. Calls within a short burst are coalesced.
+ */
+export function refreshContextMenus(): void {
+  clearTimeout(refreshTimer)
+  refreshTimer = setTimeout(() => {
+    menuUpdates = menuUpdates
+      .then(buildMenus)
+      .catch((error) => console.error('[Tab Organizer] Failed to build context menus:', error))
+  }, REFRESH_DELAY_MS)
+}
+
+async function moveTabToGroup(tabId: number, groupId: number): Promise<void> {
+  const group = await chrome.tabGroups.get(groupId)
+  await createTabGroups([{ name: group.title || "", color: group.color, tabIds: [tabId], groupId }])
+}
+
+/**
+ * Runs the action for a clicked context menu item.
+ *
+ * @param info - Click details from `chrome.contextMenus.onClicked`
+ * @param tab - Tab the menu was opened on
+ */
+export async function handleContextMenuClick(
+  info: chrome.contextMenus.OnClickData,
+  tab?: chrome.tabs.Tab
+): Promise<void> {
+  if (tab?.id === undefined) return
+  const [menuId, itemId] = String(info.menuItemId).split(":")
+
+  switch (menuId) {
+    case MENU_ORGANIZE_SELECTED: {
+      const highlighted = await chrome.tabs.query({ highlighted: true, windowId: tab.windowId })
+      const tabIds = highlighted
+        .map((t) => t.id)
+        .filter((id): id is number => id !== undefined)
+      // The page the menu was opened on counts as selected even if it isn't highlighted
+      await startOrganize("context-menu", tabIds.includes(tab.id) ? tabIds : [tab.id])
+      return
+    }
+
+    case MENU_MOVE_TO_GROUP: {
+      if (itemId === UNGROUP_ITEM) {
+        await chrome.tabs.ungroup(tab.id)
+      } else {
+        await moveTabToGroup(tab.id, Number(itemId))
+      }
+      return
+    }
+
+    case MENU_ALWAYS_GROUP_SITE: {
+      const site = siteOf(tab.url ?? "")
+      if (!site) return
+      const group = await chrome.tabGroups.get(Number(itemId))
+      const rule: GroupRule = {
+        id: crypto.randomUUID(),
+        match: "hostname",
+        pattern: site,
+        groupName: group.title || "Untitled group",
+        color: group.color,
+        enabled: true
+      }
+      // First match wins, so the new rule goes first and replaces any older rule for the site
+      const { rules } = await getSettings()
+      await saveSettings({
+        rules: [rule, ...rules.filter((r) => !(r.match === "hostname" && r.pattern.trim().toLowerCase() === site))]
+      })
+      await moveTabToGroup(tab.id, group.id)
+      return
+    }
+
+    case MENU_EXCLUDE_SITE: {
+      const site = siteOf(tab.url ?? "")
+      const { excludedSites } = await getSettings()
+      if (site && !excludedSites.includes(site)) {
+        await saveSettings({ excludedSites: [...excludedSites, site] })
+      }
+      return
+    }
+  }
+}
@@ -1,6 +1,12 @@
 import { startOrganize } from "~/background/messages/organize"
-import { isRunning } from "~/background/taskManager"
+import { placeTab } from "~/background/messages/placeTab"
+import { ungroupWindows } from "~/background/messages/ungroup"
+import { undoLastOrganize } from "~/background/messages/undoOrganize"
+import { collapseInactiveGroups, getScopeWindowIds } from "~/lib/tabs"
+import { isBusy, cancelTask } from "~/background/taskManager"
 import { getSettings } from "~/lib/storage"
+import { AUTO_ORGANIZE_ALARM, autoOrganizeIfDue, syncAutoOrganizeAlarm } from "~/background/autoOrganize"
+import { refreshContextMenus, handleContextMenuClick } from "~/background/contextMenus"
 
 console.log('[Tab Organizer] Background script loaded')
 
@@ -37,13 +43,17 @@ async function maybePromptForTab(tabId: number, url?: string) {
 		return
 	}
 	
-	if (await isRunning()) {
-		console.log('[Tab Organizer] Skipping - organize task already running')
+	if (await isBusy()) {
+		console.log('[Tab Organizer] Skipping - organize task running or awaiting review')
 		return
 	}
 
 	// Check if user has configured settings (has API key)
 	const settings = await getSettings()
+	if (settings.autoPlaceNewTabs) {
+		// Placed once the page has loaded - see onUpdated
+		return
+	}
 	if (!settings.apiKey || settings.apiKey.trim().length === 0) {
 		console.log('[Tab Organizer] Skipping notification - no API key configured')
 		console.log('[Tab Organizer] Configure your API key in Options to enable tab grouping prompts')
@@ -81,32 +91,168 @@ async function maybePromptForTab(tabId: number, url?: string) {
 	}
 }
 
+// Auto-place: new tabs wait here until their first page load, so the AI sees a real title.
+// Kept in session storage so a service worker restart doesn't forget them
+const PENDING_PLACEMENT_KEY = "pending_placement"
+let pendingUpdates: Promise<unknown> = Promise.resolve()
+
+// Applies a change to the pending tab ids; serialized so events arriving together keep each other's changes
+function changePendingPlacement(change: (ids: Set<number>) => boolean): Promise<boolean> {
+	const result = pendingUpdates.then(async () => {
+		const stored = (await chrome.storage.session.get(PENDING_PLACEMENT_KEY))[PENDING_PLACEMENT_KEY]
+		const ids = new Set<number>(Array.isArray(stored) ? stored : [])
+		const changed = change(ids)
+		if (changed) {
+			await chrome.storage.session.set({ [PENDING_PLACEMENT_KEY]: [...ids] })
+		}
+		return changed
+	})
+	pendingUpdates = result.catch(() => undefined)
+	return result
+}
+
+async function trackNewTab(tabId: number) {
+	const settings = await getSettings()
+	if (!settings.autoPlaceNewTabs) return
+	await changePendingPlacement((ids) => {
+		ids.add(tabId)
+		return true
+	})
+}
+
 chrome.tabs.onCreated.addListener((tab) => {
 	console.log('[Tab Organizer] Tab created event:', tab.id, tab.url)
 	if (tab.id !== undefined) {
+		trackNewTab(tab.id).catch((error) => {
+			console.error('[Tab Organizer] Failed to track new tab:', error)
+		})
 		maybePromptForTab(tab.id, tab.url)
 	}
 })
 console.log('[Tab Organizer] Registered onCreated listener')
 
+// Only a new tab's first web page is placed; reloads, navigation and tabs the user ungrouped are left alone
+async function maybeAutoPlaceTab(tabId: number, url?: string) {
+	// A new tab page or other internal page isn't its first real load yet
+	if (!isHttpUrl(url)) return
+	const isNew = await changePendingPlacement((ids) => ids.delete(tabId))
+	if (!isNew) return
+	const settings = await getSettings()
+	if (!settings.autoPlaceNewTabs) return
+
+	try {
+		const groupName = await placeTab(tabId)
+		console.log('[Tab Organizer] Auto-placed tab:', tabId, groupName ?? '(left alone)')
+	} catch (error) {
+		console.error('[Tab Organizer] Failed to auto-place tab:', error)
+	}
+}
+
 chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
 	if (changeInfo.url) {
 		console.log('[Tab Organizer] Tab updated event:', tabId, changeInfo.url)
 		maybePromptForTab(tabId, changeInfo.url)
 	}
+	if (changeInfo.status === "complete") {
+		maybeAutoPlaceTab(tabId, tab.url).catch((error) => {
+			console.error('[Tab Organizer] Failed to auto-place tab:', error)
+		})
+	}
+})
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+	changePendingPlacement((ids) => ids.delete(tabId)).catch(() => undefined)
 })
 console.log('[Tab Organizer] Registered onUpdated listener')
 
+// "Group Now" runs without the popup open, so its errors are reported by notification too
+async function notifyPlaceTabFailed(error: unknown) {
+	try {
+		await chrome.notifications.create(`place-tab-failed-${Date.now()}`, {
+			type: "basic",
+			title: "Couldn't group this tab",
+			message: error instanceof Error ? error.message : "Unknown error",
+			iconUrl: NOTIFICATION_ICON,
+			priority: 1
+		})
+	} catch (notifyError) {
+		console.error('[Tab Organizer] Failed to create notification:', notifyError)
+	}
+}
+
 chrome.notifications.onButtonClicked.addListener((notificationId, buttonIndex) => {
 	console.log('[Tab Organizer] Notification button clicked:', notificationId, buttonIndex)
 	if (!notificationId.startsWith("group-tab-")) return
 	if (buttonIndex === 0) {
-		console.log('[Tab Organizer] User clicked "Group Now" - starting organize')
-		// Group now via existing AI organize flow
-		startOrganize()
+		// Notification ids are "group-tab-<tabId>-<timestamp>"
+		const tabId = Number(notificationId.split("-")[2])
+		console.log('[Tab Organizer] User clicked "Group Now" - placing tab', tabId)
+		placeTab(tabId).catch((error) => {
+			console.error('[Tab Organizer] Failed to place tab:', error)
+			notifyPlaceTabFailed(error)
+		})
 	}
 	chrome.notifications.clear(notificationId)
 })
 console.log('[Tab Organizer] Registered onButtonClicked listener')
 
+// Auto-organize: keep the alarm in step with settings, run when due
+getSettings().then(syncAutoOrganizeAlarm)
+
+chrome.storage.onChanged.addListener((_changes, areaName) => {
+	if (areaName === "sync") {
+		getSettings().then(syncAutoOrganizeAlarm)
+	}
+})
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+	if (alarm.name === AUTO_ORGANIZE_ALARM) {
+		console.log('[Tab Organizer] Auto-organize alarm fired')
+		autoOrganizeIfDue()
+	}
+})
+
+chrome.idle.onStateChanged.addListener((state) => {
+	// A run held back while the user was active can start now
+	if (state !== "active") {
+		autoOrganizeIfDue()
+	}
+})
+console.log('[Tab Organizer] Registered auto-organize listeners')
+
+// Keyboard shortcuts, declared under "commands" in the manifest
+const COMMANDS: Record<string, () => Promise<unknown>> = {
+	"organize-tabs": () => startOrganize("shortcut"),
+	"undo-organize": undoLastOrganize,
+	"cancel-organize": cancelTask,
+	"ungroup-all": ungroupWindows,
+	"collapse-others": async () => {
+		const { windowScope } = await getSettings()
+		return collapseInactiveGroups(await getScopeWindowIds(windowScope))
+	}
+}
+
+chrome.commands.onCommand.addListener((command) => {
+	console.log('[Tab Organizer] Command:', command)
+	COMMANDS[command]?.().catch((error) => {
+		console.error(`[Tab Organizer] Command ${command} failed:`, error)
+	})
+})
+console.log('[Tab Organizer] Registered onCommand listener')
+
+// Context menus: the group submenus follow the groups of the focused window
+refreshContextMenus()
+chrome.tabGroups.onCreated.addListener(refreshContextMenus)
+chrome.tabGroups.onUpdated.addListener(refreshContextMenus)
+chrome.tabGroups.onRemoved.addListener(refreshContextMenus)
+chrome.windows.onFocusChanged.addListener(refreshContextMenus)
+
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+	console.log('[Tab Organizer] Context menu clicked:', info.menuItemId)
+	handleContextMenuClick(info, tab).catch((error) => {
+		console.error('[Tab Organizer] Context menu action failed:', error)
+	})
+})
+console.log('[Tab Organizer] Registered context menu listeners')
+
 // Plasmo handles message routing automatically via the messages/ directory
@@ -0,0 +1,88 @@
+import type { PlasmoMessaging } from "@plasmohq/messaging"
+import { getSettings } from "~/lib/storage"
+import { closeDuplicateTabs } from "~/lib/duplicates"
+import { findStaleTabs } from "~/lib/archive"
+import { describeGroups, updateRun } from "~/lib/history"
+import type { TabGroup } from "~/lib/types"
+import {
+  startTask,
+  completeTask,
+  failTask,
+  getTaskState
+} from "~/background/taskManager"
+import { prepareWindows, applyGroups } from "~/background/messages/organize"
+
+export type ApproveProposalRequest = {
+  action: "approveProposal"
+  groups: TabGroup[] // The proposal as edited in the popup
+}
+
+export type ApproveProposalResponse = {
+  success: boolean
+  error?: string
+}
+
+const handler: PlasmoMessaging.MessageHandler<
+  ApproveProposalRequest,
+  ApproveProposalResponse
+> = async (req, res) => {
+  const state = await getTaskState()
+  if (state.status !== "awaiting-approval") {
+    res.send({ success: false, error: "No proposal awaiting approval" })
+    return
+  }
+
+  const groups = (req.body?.groups ?? state.proposal).filter(
+    (group) => group && Array.isArray(group.tabIds) && group.tabIds.length > 0
+  )
+  if (groups.length === 0) {
+    res.send({ success: false, error: "Proposal has no groups" })
+    return
+  }
+
+  const settings = await getSettings()
+  const debugLog = state.debug ? [...state.debug] : []
+  const onDebug = (msg: string) => {
+    if (settings.debugMode) {
+      debugLog.push(msg)
+    }
+  }
+
+  await startTask("ungrouping")
+  res.send({ success: true })
+
+  try {
+    onDebug(`Approved ${groups.length} groups`)
+    const duplicates = state.duplicates ?? []
+    if (settings.duplicateHandling === "close" && duplicates.length > 0) {
+      const closed = await closeDuplicateTabs(duplicates)
+      onDebug(`Closed ${closed} duplicate tabs`)
+    }
+
+    await prepareWindows(settings, onDebug, state.selectedOnly)
+    await applyGroups(groups, settings, onDebug, state.selectedOnly)
+    // The proposal may have been edited before approval
+    await updateRun({ groups: await describeGroups(groups) })
+
+    const stale = state.selectedOnly ? [] : await findStaleTabs(settings)
+    if (stale.length > 0) {
+      onDebug(`Found ${stale.reduce((sum, s) => sum + s.tabIds.length, 0)} stale tabs in ${stale.length} groups`)
+    }
+
+    onDebug("Done!")
+    await completeTask({
+      groupCount: groups.length,
+      usage: state.usage,
+      cost: state.cost,
+      duplicateCount: duplicates.reduce((sum, d) => sum + d.duplicateTabIds.length, 0),
+      duplicates: settings.duplicateHandling === "review" && duplicates.length > 0 ? duplicates : undefined,
+      stale: stale.length > 0 ? stale : undefined,
+      debug: settings.debugMode ? debugLog : undefined
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error"
+    await failTask(message)
+  }
+}
+
+export default handler
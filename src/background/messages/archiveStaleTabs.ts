@@ -0,0 +1,35 @@
+import type { PlasmoMessaging } from "@plasmohq/messaging"
+import type { StaleGroup } from "~/lib/types"
+import { archiveTabs } from "~/lib/archive"
+
+export type ArchiveStaleTabsRequest = {
+  action: "archiveStaleTabs"
+  groups: StaleGroup[]
+}
+
+export type ArchiveStaleTabsResponse = {
+  success: boolean
+  archived?: number
+  error?: string
+}
+
+const handler: PlasmoMessaging.MessageHandler<
+  ArchiveStaleTabsRequest,
+  ArchiveStaleTabsResponse
+> = async (req, res) => {
+  const groups = req.body?.groups
+  if (!Array.isArray(groups) || groups.length === 0) {
+    res.send({ success: false, error: "No stale tabs to archive" })
+    return
+  }
+
+  try {
+    const archive = await archiveTabs(groups)
+    res.send({ success: true, archived: archive.groups.reduce((sum, group) => sum + group.urls.length, 0) })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error"
+    res.send({ success: false, error: message })
+  }
+}
+
+export default handler
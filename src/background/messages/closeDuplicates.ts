@@ -0,0 +1,35 @@
+import type { PlasmoMessaging } from "@plasmohq/messaging"
+import type { DuplicateSet } from "~/lib/types"
+import { closeDuplicateTabs } from "~/lib/duplicates"
+
+export type CloseDuplicatesRequest = {
+  action: "closeDuplicates"
+  duplicates: DuplicateSet[]
+}
+
+export type CloseDuplicatesResponse = {
+  success: boolean
+  closed?: number
+  error?: string
+}
+
+const handler: PlasmoMessaging.MessageHandler<
+  CloseDuplicatesRequest,
+  CloseDuplicatesResponse
+> = async (req, res) => {
+  const duplicates = req.body?.duplicates
+  if (!Array.isArray(duplicates) || duplicates.length === 0) {
+    res.send({ success: false, error: "No duplicates to close" })
+    return
+  }
+
+  try {
+    const closed = await closeDuplicateTabs(duplicates)
+    res.send({ success: true, closed })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error"
+    res.send({ success: false, error: message })
+  }
+}
+
+export default handler
@@ -0,0 +1,21 @@
+import type { PlasmoMessaging } from "@plasmohq/messaging"
+import { deleteArchive } from "~/lib/archive"
+
+export type DeleteArchiveRequest = {
+  action: "deleteArchive"
+  id: string
+}
+
+export type DeleteArchiveResponse = {
+  success: boolean
+}
+
+const handler: PlasmoMessaging.MessageHandler<
+  DeleteArchiveRequest,
+  DeleteArchiveResponse
+> = async (req, res) => {
+  const deleted = await deleteArchive(req.body?.id ?? "")
+  res.send({ success: deleted })
+}
+
+export default handler
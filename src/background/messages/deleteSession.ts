@@ -0,0 +1,21 @@
+import type { PlasmoMessaging } from "@plasmohq/messaging"
+import { deleteSession } from "~/lib/sessions"
+
+export type DeleteSessionRequest = {
+  action: "deleteSession"
+  id: string
+}
+
+export type DeleteSessionResponse = {
+  success: boolean
+}
+
+const handler: PlasmoMessaging.MessageHandler<
+  DeleteSessionRequest,
+  DeleteSessionResponse
+> = async (req, res) => {
+  const deleted = await deleteSession(req.body?.id ?? "")
+  res.send({ success: deleted })
+}
+
+export default handler
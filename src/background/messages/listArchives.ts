@@ -0,0 +1,21 @@
+import type { PlasmoMessaging } from "@plasmohq/messaging"
+import type { TabArchive } from "~/lib/types"
+import { listArchives } from "~/lib/archive"
+
+export type ListArchivesRequest = {
+  action: "listArchives"
+}
+
+export type ListArchivesResponse = {
+  archives: TabArchive[]
+}
+
+const handler: PlasmoMessaging.MessageHandler<
+  ListArchivesRequest,
+  ListArchivesResponse
+> = async (req, res) => {
+  const archives = await listArchives()
+  res.send({ archives })
+}
+
+export default handler
@@ -0,0 +1,21 @@
+import type { PlasmoMessaging } from "@plasmohq/messaging"
+import type { SavedSession } from "~/lib/types"
+import { listSessions } from "~/lib/sessions"
+
+export type ListSessionsRequest = {
+  action: "listSessions"
+}
+
+export type ListSessionsResponse = {
+  sessions: SavedSession[]
+}
+
+const handler: PlasmoMessaging.MessageHandler<
+  ListSessionsRequest,
+  ListSessionsResponse
+> = async (req, res) => {
+  const sessions = await listSessions()
+  res.send({ sessions })
+}
+
+export default handler
@@ -1,19 +1,55 @@
 import type { PlasmoMessaging } from "@plasmohq/messaging"
-import { getAllTabs, ungroupAllTabs, createTabGroups } from "~/lib/tabs"
+import {
+  getAllTabs,
+  ungroupAllTabs,
+  createTabGroups,
+  captureGroupSnapshot,
+  getExistingGroups,
+  getScopeWindowIds,
+  getActiveTabIds,
+  partitionSpecialTabs,
+  orderTabStrip
+} from "~/lib/tabs"
+import { pushSnapshot } from "~/lib/undo"
 import { getSettings, validateSettings } from "~/lib/storage"
 import { organizeTabsWithAI } from "~/lib/api"
-import type { Settings } from "~/lib/types"
+import { organizeTabsOffline } from "~/lib/offline"
+import { organizeTabsWithEmbeddings } from "~/lib/embeddings"
+import { getPromptTemplate } from "~/lib/prompts"
+import { addUsage, checkBudget, EMPTY_USAGE, recordUsage } from "~/lib/usage"
+import { beginRun, describeGroups, updateRun } from "~/lib/history"
+import { keepPreviousIdentity } from "~/lib/continuity"
+import { applyRules, attachExistingGroups, mergeRuleGroups, isExcludedSite } from "~/lib/rules"
+import { findDuplicates, closeDuplicateTabs } from "~/lib/duplicates"
+import { findStaleTabs } from "~/lib/archive"
+import type {
+  Settings,
+  ExistingGroup,
+  TabGroup,
+  TabInfo,
+  DuplicateSet,
+  StreamProgress,
+  TokenUsage,
+  RunTrigger
+} from "~/lib/types"
 import {
   startTask,
   completeTask,
   failTask,
   setTaskPhase,
+  setBatchProgress,
+  setStreamProgress,
   isRunning,
-  getTaskState
+  isBusy,
+  getTaskState,
+  awaitApproval
 } from "~/background/taskManager"
 
 export type OrganizeRequest = {
   action: "organize"
+  // "highlighted" organizes only the highlighted tabs of the current window and
+  // leaves every other group alone; by default settings.windowScope applies
+  scope?: "highlighted"
 }
 
 export type OrganizeResponse = {
@@ -21,16 +57,130 @@ export type OrganizeResponse = {
   error?: string
 }
 
+// Minimum gap between stream progress writes to task state
+const STREAM_WRITE_INTERVAL_MS = 250
+
 // Check if task was cancelled (by reading storage directly)
 async function isCancelled(): Promise<boolean> {
   const state = await getTaskState()
   return state.status === "cancelled"
 }
 
+/**
+ * Saves the current group layout of the windows in scope for undo and,
+ * unless organizing incrementally or only selected tabs, removes their
+ * existing groups.
+ */
+export async function prepareWindows(
+  settings: Settings,
+  onDebug: (msg: string) => void,
+  keepGroups = false
+): Promise<void> {
+  const windowIds = await getScopeWindowIds(settings.windowScope)
+  const snapshot = await captureGroupSnapshot(windowIds)
+  await pushSnapshot(snapshot)
+  onDebug(`Saved ${snapshot.groups.length} existing groups for undo`)
+
+  if (!keepGroups && settings.organizeMode !== "incremental") {
+    await setTaskPhase("ungrouping")
+    onDebug(`Ungrouping existing groups in ${windowIds.length} window(s)...`)
+
+    // Tabs that should be left in place keep their current group
+    let tabs = await getAllTabs(settings.windowScope)
+    const keepTabIds = [
+      ...partitionSpecialTabs(tabs, settings.specialTabs).leave,
+      ...tabs.filter((tab) => isExcludedSite(tab, settings.excludedSites))
+    ].map((tab) => tab.id)
+    for (const windowId of windowIds) {
+      await ungroupAllTabs(windowId, keepTabIds)
+    }
+  }
+}
+
+/**
+ * Creates the given groups in the windows in scope, collapsing all but the
+ * active tab's group when enabled in settings, then arranges the tab strip
+ * in the configured group order unless only selected tabs were organized.
+ */
+export async function applyGroups(
+  groups: TabGroup[],
+  settings: Settings,
+  onDebug: (msg: string) => void,
+  keepGroups = false
+): Promise<void> {
+  await setTaskPhase("creating-groups")
+  onDebug("Creating groups...")
+
+  // Get active tabs now (not earlier) since user may have switched during AI call
+  const windowIds = await getScopeWindowIds(settings.windowScope)
+  const activeTabIds = await getActiveTabIds(windowIds)
+  if (settings.collapseGroups) {
+    onDebug(`Collapse others enabled, active tab(s) ${activeTabIds.join(", ") || "none"} stay expanded`)
+  }
+  const groupIds = await createTabGroups(groups, {
+    collapseOthers: settings.collapseGroups,
+    activeTabIds,
+    placement: settings.windowPlacement
+  })
+
+  if (!keepGroups && settings.groupOrder !== "off") {
+    onDebug(`Ordering groups by ${settings.groupOrder}, ungrouped tabs at the ${settings.looseTabsEdge}`)
+    await orderTabStrip(windowIds, settings.groupOrder, settings.looseTabsEdge, groupIds)
+  }
+}
+
+/**
+ * Calls the AI, publishing batch and streaming progress to the task state
+ */
+async function requestAIGroups(
+  tabs: TabInfo[],
+  settings: Settings,
+  signal: AbortSignal,
+  onDebug: (msg: string) => void,
+  onUsage: (usage: TokenUsage, model: string) => void,
+  existingGroups?: ExistingGroup[],
+  previousGroups?: ExistingGroup[]
+): Promise<TabGroup[]> {
+  // Serialize progress writes so concurrent batches can't overwrite a newer count
+  let progressWrites = Promise.resolve()
+  // Stream progress arrives per token - write the latest at most every interval
+  let latestStream: StreamProgress | undefined
+  let streamTimer: ReturnType<typeof setTimeout> | undefined
+  const promptTemplate = await getPromptTemplate(settings.activePromptId)
+  try {
+    return await organizeTabsWithAI(tabs, settings, {
+      signal,
+      onDebug,
+      existingGroups,
+      previousGroups,
+      promptTemplate,
+      onUsage,
+      onBatchProgress: (completed, total) => {
+        progressWrites = progressWrites.then(() => setBatchProgress(completed, total))
+      },
+      onStreamProgress: (progress) => {
+        latestStream = progress
+        if (streamTimer) return
+        streamTimer = setTimeout(() => {
+          streamTimer = undefined
+          const snapshot = latestStream!
+          progressWrites = progressWrites.then(() => setStreamProgress(snapshot))
+        }, STREAM_WRITE_INTERVAL_MS)
+      }
+    })
+  } finally {
+    clearTimeout(streamTimer)
+    await progressWrites
+  }
+}
+
 async function executeOrganizeTask(
   settings: Settings,
-  signal: AbortSignal
+  signal: AbortSignal,
+  selectedTabIds?: number[]
 ): Promise<void> {
+  // Organizing a selection leaves every other tab and group as it is
+  const selectedOnly = !!selectedTabIds
   const debugLog: string[] = []
   const onDebug = (msg: string) => {
     if (settings.debugMode) {
@@ -42,8 +192,16 @@ async function executeOrganizeTask(
     // Phase 1: Fetch tabs
     await setTaskPhase("fetching-tabs")
     onDebug("Fetching tabs...")
-    const tabs = await getAllTabs()
-    onDebug(`Found ${tabs.length} tabs`)
+    let tabs: TabInfo[]
+    if (selectedTabIds) {
+      const selected = new Set(selectedTabIds)
+      tabs = (await getAllTabs("all")).filter((tab) => selected.has(tab.id))
+      onDebug(`Organizing ${tabs.length} selected tabs`)
+    } else {
+      tabs = await getAllTabs(settings.windowScope)
+      onDebug(`Found ${tabs.length} tabs (${settings.windowScope === "all" ? "all windows" : "current window"})`)
+    }
+    await updateRun({ tabCount: tabs.length })
 
     if (signal.aborted || await isCancelled()) return
 
@@ -52,50 +210,217 @@ async function executeOrganizeTask(
       return
     }
 
+    // Phase 1b: Find pages open in more than one tab
+    let duplicates: DuplicateSet[] = []
+    const duplicateGroups: TabGroup[] = []
+    if (settings.duplicateHandling !== "off") {
+      await setTaskPhase("deduplicating")
+      // Excluded sites are left alone, their copies included
+      const candidates = partitionSpecialTabs(tabs, settings.specialTabs).organize
+        .filter((tab) => !isExcludedSite(tab, settings.excludedSites))
+      // Keep the active tab, and in incremental mode a copy that is already grouped
+      const preferTabIds = new Set(await getActiveTabIds(await getScopeWindowIds(settings.windowScope)))
+      if (settings.organizeMode === "incremental") {
+        tabs.filter((tab) => (tab.groupId ?? -1) !== -1).forEach((tab) => preferTabIds.add(tab.id))
+      }
+      duplicates = findDuplicates(candidates, preferTabIds)
+      const extraTabIds = new Set(duplicates.flatMap((d) => d.duplicateTabIds))
+      onDebug(`Found ${extraTabIds.size} duplicate tabs of ${duplicates.length} pages`)
+
+      if (extraTabIds.size > 0 && settings.duplicateHandling !== "review") {
+        // Extra copies are closed or collected, so they are not organized
+        tabs = tabs.filter((tab) => !extraTabIds.has(tab.id))
+        if (settings.duplicateHandling === "group") {
+          duplicateGroups.push({ name: "🔁 Duplicates", color: "grey", tabIds: [...extraTabIds] })
+        } else if (!settings.reviewBeforeApply) {
+          const closed = await closeDuplicateTabs(duplicates)
+          onDebug(`Closed ${closed} duplicate tabs`)
+        }
+      }
+    }
+    const duplicateCount = duplicates.reduce((sum, d) => sum + d.duplicateTabIds.length, 0)
+
     if (signal.aborted || await isCancelled()) return
 
-    // Phase 2: Ungroup existing
-    await setTaskPhase("ungrouping")
-    onDebug("Ungrouping existing groups...")
-    await ungroupAllTabs()
+    let tabsToOrganize = tabs
+    // Groups kept in incremental mode, as offered to the organizer
+    let existingGroups: ExistingGroup[] | undefined
+    // The same groups with every member, for attaching rule groups by name
+    let keptGroups: ExistingGroup[] = []
+    // Groups about to be replaced, whose names and colors new groups should keep
+    let previousGroups: ExistingGroup[] = []
+
+    // Only tabs that may be organized are described to the API: members of existing groups
+    // that are special or on an excluded site must not leak through the group descriptions
+    const shareableTabs = partitionSpecialTabs(tabs, settings.specialTabs).organize
+      .filter((tab) => !isExcludedSite(tab, settings.excludedSites))
+
+    // Selected tabs get new groups whether or not they are grouped now
+    if (selectedOnly) {
+      onDebug("Selection: other tabs and groups are left as they are")
+    } else if (settings.organizeMode === "incremental") {
+      // Keep existing groups and only place loose tabs
+      keptGroups = await getExistingGroups(tabs)
+      const shareableIds = new Set(shareableTabs.map((tab) => tab.id))
+      existingGroups = keptGroups
+        .map((group) => ({ ...group, tabs: group.tabs.filter((tab) => shareableIds.has(tab.id)) }))
+        .filter((group) => group.tabs.length > 0)
+      tabsToOrganize = tabs.filter((tab) => (tab.groupId ?? -1) === -1)
+      onDebug(`Incremental: ${tabsToOrganize.length} ungrouped tabs, ${keptGroups.length} existing groups`)
+
+      if (tabsToOrganize.length === 0) {
+        await failTask("All tabs are already grouped")
+        return
+      }
+    } else {
+      previousGroups = await getExistingGroups(shareableTabs)
+    }
+
+    // Pinned, audible, discarded and incognito tabs are left alone or get their own group
+    const special = partitionSpecialTabs(tabsToOrganize, settings.specialTabs)
+    tabsToOrganize = special.organize
+    if (special.leave.length > 0 || special.dedicated.length > 0) {
+      onDebug(`Special tabs: ${special.leave.length} left in place, ${special.dedicated.length} dedicated groups`)
+    }
+
+    // Excluded sites are never sent anywhere or regrouped
+    const beforeExclusion = tabsToOrganize.length
+    tabsToOrganize = tabsToOrganize.filter((tab) => !isExcludedSite(tab, settings.excludedSites))
+    if (tabsToOrganize.length < beforeExclusion) {
+      onDebug(`Excluded sites: ${beforeExclusion - tabsToOrganize.length} tabs left in place`)
+    }
+
+    // Tabs matched by user rules are grouped deterministically and never sent to the AI
+    const ruleResult = applyRules(tabsToOrganize, settings.rules ?? [])
+    const ruleGroups = attachExistingGroups(
+      [...special.dedicated, ...duplicateGroups, ...ruleResult.groups],
+      keptGroups
+    )
+    tabsToOrganize = ruleResult.remaining
+    if (ruleResult.groups.length > 0) {
+      const matched = ruleResult.groups.reduce((sum, group) => sum + group.tabIds.length, 0)
+      onDebug(`Rules matched ${matched} tabs into ${ruleResult.groups.length} groups`)
+    }
+
+    // Phase 2: Save layout and ungroup existing
+    // When reviewing, the window is left untouched until the proposal is approved
+    if (!settings.reviewBeforeApply) {
+      await prepareWindows(settings, onDebug, selectedOnly)
+    }
 
     if (signal.aborted || await isCancelled()) return
 
     // Phase 3: Call AI (the long operation)
-    await setTaskPhase("calling-ai")
-    onDebug("Calling AI...")
-    const groups = await organizeTabsWithAI(tabs, settings, {
-      signal,
-      onDebug
-    })
-    onDebug(`AI returned ${groups.length} groups`)
+    let aiGroups: TabGroup[] = []
+    let offline = false
+    const usageByModel = new Map<string, TokenUsage>()
+    const onUsage = (usage: TokenUsage, model: string) => {
+      usageByModel.set(model, addUsage(usageByModel.get(model) ?? EMPTY_USAGE, usage))
+    }
+    let spend: { usage: TokenUsage; cost?: number } | undefined
+    if (tabsToOrganize.length > 0) {
+      // The budget was checked before starting; with the fallback on, a used-up budget means offline grouping
+      const budgetError = await checkBudget(settings)
+      if (budgetError && !settings.offlineFallback) throw new Error(budgetError)
+      if (settings.organizer === "offline" || budgetError) {
+        await setTaskPhase("clustering")
+        onDebug(budgetError ? `${budgetError} - grouping offline...` : "Grouping offline...")
+        aiGroups = organizeTabsOffline(tabsToOrganize, existingGroups)
+        offline = true
+      } else {
+        try {
+          if (settings.organizer === "embeddings") {
+            await setTaskPhase("embedding")
+            onDebug("Clustering with embeddings...")
+            aiGroups = await organizeTabsWithEmbeddings(tabsToOrganize, settings, {
+              signal,
+              onDebug,
+              existingGroups,
+              onUsage
+            })
+          } else {
+            await setTaskPhase("calling-ai")
+            onDebug("Calling AI...")
+            aiGroups = await requestAIGroups(
+              tabsToOrganize,
+              settings,
+              signal,
+              onDebug,
+              onUsage,
+              existingGroups,
+              previousGroups
+            )
+          }
+        } catch (error) {
+          const cancelled = signal.aborted || (error instanceof Error && error.name === "AbortError")
+          if (cancelled || !settings.offlineFallback) throw error
+
+          onDebug(`AI failed (${error instanceof Error ? error.message : "Unknown error"}) - grouping offline...`)
+          await setTaskPhase("clustering")
+          aiGroups = organizeTabsOffline(tabsToOrganize, existingGroups)
+          offline = true
+        } finally {
+          // Tokens are spent even if the run fails or falls back
+          if (usageByModel.size > 0) {
+            // Losing the record would let later runs overspend the budget unnoticed
+            spend = await recordUsage(usageByModel, settings.modelPrices).catch((error) => {
+              console.error('[Tab Organizer] Failed to record usage:', error)
+              onDebug(`Failed to record usage: ${error instanceof Error ? error.message : "Unknown error"}`)
+              return undefined
+            })
+            await updateRun({ usage: spend?.usage, cost: spend?.cost })
+          }
+        }
+      }
+      onDebug(`${offline ? "Offline organizer" : "AI"} returned ${aiGroups.length} groups`)
+      aiGroups = keepPreviousIdentity(aiGroups, previousGroups)
+    } else {
+      onDebug("All tabs matched rules - skipping AI")
+    }
 
     if (signal.aborted || await isCancelled()) return
 
-    // Phase 4: Create groups
-    await setTaskPhase("creating-groups")
-    onDebug("Creating groups...")
+    const groups = mergeRuleGroups(ruleGroups, aiGroups)
+    await updateRun({ groups: await describeGroups(groups), offline: offline || undefined })
 
-    // Get active tab now (not earlier) since user may have switched during AI call
-    const [activeTab] = await chrome.tabs.query({
-      active: true,
-      currentWindow: true
-    })
-    const activeTabId = activeTab?.id
-    if (settings.collapseGroups) {
-      onDebug(`Collapse others enabled, active tab ${activeTabId ?? "none"} group stays expanded`)
+    if (settings.reviewBeforeApply) {
+      onDebug("Waiting for approval...")
+      const tabTitles: Record<number, string> = {}
+      for (const tab of tabs) {
+        tabTitles[tab.id] = tab.title
+      }
+      await awaitApproval(
+        groups,
+        tabTitles,
+        settings.debugMode ? debugLog : undefined,
+        duplicates.length > 0 ? duplicates : undefined,
+        spend,
+        selectedOnly || undefined
+      )
+      return
     }
-    await createTabGroups(groups, {
-      collapseOthers: settings.collapseGroups,
-      activeTabId
-    })
+
+    // Phase 4: Create groups
+    await applyGroups(groups, settings, onDebug, selectedOnly)
 
     // Final check before completing
     if (await isCancelled()) return
 
+    // A selection run leaves the rest of the window alone, stale tabs included
+    const stale = selectedOnly ? [] : await findStaleTabs(settings)
+    if (stale.length > 0) {
+      onDebug(`Found ${stale.reduce((sum, s) => sum + s.tabIds.length, 0)} stale tabs in ${stale.length} groups`)
+    }
+
     onDebug("Done!")
     await completeTask({
       groupCount: groups.length,
+      offline: offline || undefined,
+      usage: spend?.usage,
+      cost: spend?.cost,
+      duplicateCount,
+      duplicates: settings.duplicateHandling === "review" && duplicates.length > 0 ? duplicates : undefined,
+      stale: stale.length > 0 ? stale : undefined,
       debug: settings.debugMode ? debugLog : undefined
     })
   } catch (error) {
@@ -120,9 +445,15 @@ const handler: PlasmoMessaging.MessageHandler<OrganizeRequest, OrganizeResponse>
     return
   }
 
+  // Starting over would silently discard the proposal waiting in the popup
+  if ((await getTaskState()).status === "awaiting-approval") {
+    res.send({ started: false, error: "Approve or reject the pending proposal first" })
+    return
+  }
+
   const settings = await getSettings()
 
-  // Validate before starting
+  // Validate before starting; the offline fallback covers an unreachable API, not a missing configuration
   const validation = validateSettings(settings)
   if (!validation.valid) {
     res.send({
@@ -132,21 +463,44 @@ const handler: PlasmoMessaging.MessageHandler<OrganizeRequest, OrganizeResponse>
     return
   }
 
+  const budgetError = await checkBudget(settings)
+  if (budgetError && !settings.offlineFallback) {
+    res.send({ started: false, error: budgetError })
+    return
+  }
+
+  let selectedTabIds: number[] | undefined
+  if (req.body?.scope === "highlighted") {
+    const highlighted = await chrome.tabs.query({ highlighted: true, currentWindow: true })
+    selectedTabIds = highlighted
+      .map((tab) => tab.id)
+      .filter((id): id is number => id !== undefined)
+    if (selectedTabIds.length === 0) {
+      res.send({ started: false, error: "No highlighted tabs" })
+      return
+    }
+  }
+
   // Start the task and get the abort controller
+  await beginRun("popup", settings)
   const abortController = await startTask()
 
   // Acknowledge immediately - popup can close now
   res.send({ started: true })
 
   // Run the actual work asynchronously (fire-and-forget)
-  executeOrganizeTask(settings, abortController.signal)
+  executeOrganizeTask(settings, abortController.signal, selectedTabIds)
 }
 
 export default handler
 
 // Allow programmatic organize from background (e.g., notifications)
-export async function startOrganize(): Promise<void> {
-  if (await isRunning()) {
+export async function startOrganize(
+  trigger: RunTrigger = "notification",
+  selectedTabIds?: number[]
+): Promise<void> {
+  // Shortcuts, notifications and schedules must not replace a proposal the user hasn't reviewed
+  if (await isBusy()) {
     return
   }
 
@@ -157,27 +511,39 @@ export async function startOrganize(): Promise<void> {
     return
   }
 
-  // Show "Regrouping..." notification
-  const NOTIFICATION_ICON = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=='
-  const regroupNotificationId = `regrouping-${Date.now()}`
+  const budgetError = await checkBudget(settings)
+  if (budgetError && !settings.offlineFallback) {
+    // Automatic runs skip quietly, or every tick would put the popup in an error state
+    if (trigger !== "schedule") {
+      await failTask(budgetError)
+    }
+    return
+  }
+
+  // Show "Regrouping..." notification; scheduled runs stay quiet so they don't interrupt work
+  if (trigger !== "schedule") {
+    const NOTIFICATION_ICON = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=='
+    const regroupNotificationId = `regrouping-${Date.now()}`
   
-  try {
-    await chrome.notifications.create(regroupNotificationId, {
-      type: "basic",
-      title: "Tab Organizer",
-      message: "Regrouping your tabs...",
-      iconUrl: NOTIFICATION_ICON,
-      priority: 1
-    })
+    try {
+      await chrome.notifications.create(regroupNotificationId, {
+        type: "basic",
+        title: "Tab Organizer",
+        message: "Regrouping your tabs...",
+        iconUrl: NOTIFICATION_ICON,
+        priority: 1
+      })
     
-    // Auto-dismiss after task completes (we'll clear it when done)
-    setTimeout(() => {
-      chrome.notifications.clear(regroupNotificationId)
-    }, 3000)
-  } catch (error) {
-    console.error('[Tab Organizer] Failed to show regrouping notification:', error)
+      // Auto-dismiss after task completes (we'll clear it when done)
+      setTimeout(() => {
+        chrome.notifications.clear(regroupNotificationId)
+      }, 3000)
+    } catch (error) {
+      console.error('[Tab Organizer] Failed to show regrouping notification:', error)
+    }
   }
 
+  await beginRun(trigger, settings)
   const abortController = await startTask()
-  executeOrganizeTask(settings, abortController.signal)
+  executeOrganizeTask(settings, abortController.signal, selectedTabIds)
 }
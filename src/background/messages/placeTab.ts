@@ -0,0 +1,100 @@
+import type { PlasmoMessaging } from "@plasmohq/messaging"
+import { getSettings, validateSettings } from "~/lib/storage"
+import { getWindowTabs, getExistingGroups, partitionSpecialTabs, createTabGroups } from "~/lib/tabs"
+import { placeTabWithAI } from "~/lib/api"
+import { organizeTabsOffline } from "~/lib/offline"
+import { isExcludedSite } from "~/lib/rules"
+import { addUsage, checkBudget, EMPTY_USAGE, recordUsage } from "~/lib/usage"
+import type { TabGroup, TokenUsage } from "~/lib/types"
+import { isBusy } from "~/background/taskManager"
+
+export type PlaceTabRequest = {
+  action: "placeTab"
+  tabId: number
+}
+
+export type PlaceTabResponse = {
+  success: boolean
+  groupName?: string
+  error?: string
+}
+
+/**
+ * Adds one ungrouped tab to the best group in its window, or to a new
+ * group when none fits, without touching any other tab.
+ *
+ * Uses a single small AI request, or the offline organizer when that is
+ * the configured organizer, or with the offline fallback on when the
+ * budget is used up or the request fails. Invalid API settings throw.
+ *
+ * @param tabId - Tab to place
+ * @returns Promise resolving to the name of the group the tab joined, or
+ *   undefined when the tab was left alone (already grouped, special, on an
+ *   excluded site, or an organize run is in progress or awaiting review)
+ */
+export async function placeTab(tabId: number): Promise<string | undefined> {
+  if (await isBusy()) return undefined
+
+  const settings = await getSettings()
+  const { windowId } = await chrome.tabs.get(tabId)
+  const windowTabs = await getWindowTabs(windowId)
+  const tab = windowTabs.find((t) => t.id === tabId)
+  if (!tab || (tab.groupId ?? -1) !== -1) return undefined
+  if (partitionSpecialTabs([tab], settings.specialTabs).organize.length === 0) return undefined
+  if (isExcludedSite(tab, settings.excludedSites)) return undefined
+
+  // Group members that are special or on excluded sites are never described to the API
+  const shareableTabs = partitionSpecialTabs(windowTabs, settings.specialTabs).organize
+    .filter((t) => !isExcludedSite(t, settings.excludedSites))
+  const groups = await getExistingGroups(shareableTabs)
+  const placeOffline = () => organizeTabsOffline([tab], groups)[0]
+
+  const validation = validateSettings(settings)
+  if (!validation.valid) {
+    throw new Error(validation.error || "Please configure API settings in the extension options")
+  }
+
+  // Why the API can't be used for this tab, if it can't
+  const apiError = settings.organizer === "offline" ? undefined : await checkBudget(settings)
+
+  let group: TabGroup
+  if (settings.organizer === "offline") {
+    group = placeOffline()
+  } else if (apiError) {
+    if (!settings.offlineFallback) throw new Error(apiError)
+    group = placeOffline()
+  } else {
+    const usageByModel = new Map<string, TokenUsage>()
+    try {
+      group = await placeTabWithAI(tab, groups, settings, {
+        onUsage: (usage, model) => {
+          usageByModel.set(model, addUsage(usageByModel.get(model) ?? EMPTY_USAGE, usage))
+        }
+      })
+    } catch (error) {
+      if (!settings.offlineFallback) throw error
+      group = placeOffline()
+    } finally {
+      if (usageByModel.size > 0) {
+        await recordUsage(usageByModel, settings.modelPrices).catch((error) => {
+          console.error('[Tab Organizer] Failed to record usage:', error)
+        })
+      }
+    }
+  }
+
+  await createTabGroups([group])
+  return group.name
+}
+
+const handler: PlasmoMessaging.MessageHandler<PlaceTabRequest, PlaceTabResponse> = async (req, res) => {
+  try {
+    const groupName = await placeTab(req.body?.tabId ?? -1)
+    res.send({ success: groupName !== undefined, groupName })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error"
+    res.send({ success: false, error: message })
+  }
+}
+
+export default handler
@@ -0,0 +1,71 @@
+import type { PlasmoMessaging } from "@plasmohq/messaging"
+import { getSettings } from "~/lib/storage"
+import { getAllTabs, partitionSpecialTabs } from "~/lib/tabs"
+import { beginRun, describeGroups, getRunHistory, matchRunGroups, updateRun } from "~/lib/history"
+import { isExcludedSite } from "~/lib/rules"
+import { isBusy, startTask, completeTask, failTask } from "~/background/taskManager"
+import { prepareWindows, applyGroups } from "~/background/messages/organize"
+
+export type ReapplyRunRequest = {
+  action: "reapplyRun"
+  id: string
+}
+
+export type ReapplyRunResponse = {
+  success: boolean
+  groupCount?: number
+  tabCount?: number
+  error?: string
+}
+
+const handler: PlasmoMessaging.MessageHandler<
+  ReapplyRunRequest,
+  ReapplyRunResponse
+> = async (req, res) => {
+  if (await isBusy()) {
+    res.send({ success: false, error: "Task already running" })
+    return
+  }
+
+  const run = (await getRunHistory()).find((r) => r.id === req.body?.id)
+  if (!run) {
+    res.send({ success: false, error: "Run not found" })
+    return
+  }
+
+  const settings = await getSettings()
+  // Tabs that should be left in place and excluded sites are never regrouped
+  const tabs = await getAllTabs(settings.windowScope)
+  const leave = new Set(partitionSpecialTabs(tabs, settings.specialTabs).leave.map((tab) => tab.id))
+  const groups = matchRunGroups(
+    run,
+    tabs.filter((tab) => !leave.has(tab.id) && !isExcludedSite(tab, settings.excludedSites))
+  )
+  if (groups.length === 0) {
+    res.send({ success: false, error: "None of the run's tabs are open" })
+    return
+  }
+
+  // Recorded as a run of its own, so completing it can't finish a draft left by another run
+  await beginRun("reapply", settings)
+  await updateRun({ tabCount: tabs.length, groups: await describeGroups(groups) })
+  // Marked as running so no organize run can start in between
+  await startTask("ungrouping")
+  try {
+    // Same path as an approved proposal, so the change can be undone
+    await prepareWindows(settings, () => {})
+    await applyGroups(groups, settings, () => {})
+    await completeTask({ groupCount: groups.length })
+    res.send({
+      success: true,
+      groupCount: groups.length,
+      tabCount: groups.reduce((sum, group) => sum + group.tabIds.length, 0)
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error"
+    await failTask(message)
+    res.send({ success: false, error: message })
+  }
+}
+
+export default handler
@@ -0,0 +1,28 @@
+import type { PlasmoMessaging } from "@plasmohq/messaging"
+import { getTaskState, resetToIdle } from "~/background/taskManager"
+import { finishRun } from "~/lib/history"
+
+export type RejectProposalRequest = {
+  action: "rejectProposal"
+}
+
+export type RejectProposalResponse = {
+  success: boolean
+}
+
+const handler: PlasmoMessaging.MessageHandler<
+  RejectProposalRequest,
+  RejectProposalResponse
+> = async (req, res) => {
+  const state = await getTaskState()
+  if (state.status !== "awaiting-approval") {
+    res.send({ success: false })
+    return
+  }
+  // Nothing was changed while awaiting approval - just discard the proposal
+  await finishRun("rejected")
+  await resetToIdle()
+  res.send({ success: true })
+}
+
+export default handler
@@ -1,5 +1,5 @@
 import type { PlasmoMessaging } from "@plasmohq/messaging"
-import { resetToIdle, isRunning } from "~/background/taskManager"
+import { resetToIdle, isBusy } from "~/background/taskManager"
 
 export type ResetTaskRequest = {
   action: "resetTask"
@@ -13,8 +13,8 @@ const handler: PlasmoMessaging.MessageHandler<
   ResetTaskRequest,
   ResetTaskResponse
 > = async (req, res) => {
-  if (await isRunning()) {
-    res.send({ success: false }) // Cannot reset while running
+  if (await isBusy()) {
+    res.send({ success: false }) // Cannot reset while running or awaiting review
     return
   }
   await resetToIdle()
@@ -0,0 +1,28 @@
+import type { PlasmoMessaging } from "@plasmohq/messaging"
+import { restoreArchive } from "~/lib/archive"
+
+export type RestoreArchiveRequest = {
+  action: "restoreArchive"
+  id: string
+}
+
+export type RestoreArchiveResponse = {
+  success: boolean
+  tabCount?: number
+  error?: string
+}
+
+const handler: PlasmoMessaging.MessageHandler<
+  RestoreArchiveRequest,
+  RestoreArchiveResponse
+> = async (req, res) => {
+  try {
+    const tabCount = await restoreArchive(req.body?.id ?? "")
+    res.send({ success: true, tabCount })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error"
+    res.send({ success: false, error: message })
+  }
+}
+
+export default handler
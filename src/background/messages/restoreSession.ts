@@ -0,0 +1,28 @@
+import type { PlasmoMessaging } from "@plasmohq/messaging"
+import { restoreSession } from "~/lib/sessions"
+
+export type RestoreSessionRequest = {
+  action: "restoreSession"
+  id: string
+}
+
+export type RestoreSessionResponse = {
+  success: boolean
+  tabCount?: number
+  error?: string
+}
+
+const handler: PlasmoMessaging.MessageHandler<
+  RestoreSessionRequest,
+  RestoreSessionResponse
+> = async (req, res) => {
+  try {
+    const tabCount = await restoreSession(req.body?.id ?? "")
+    res.send({ success: true, tabCount })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error"
+    res.send({ success: false, error: message })
+  }
+}
+
+export default handler
@@ -0,0 +1,29 @@
+import type { PlasmoMessaging } from "@plasmohq/messaging"
+import type { SavedSession } from "~/lib/types"
+import { saveSession } from "~/lib/sessions"
+
+export type SaveSessionRequest = {
+  action: "saveSession"
+  name: string
+}
+
+export type SaveSessionResponse = {
+  success: boolean
+  session?: SavedSession
+  error?: string
+}
+
+const handler: PlasmoMessaging.MessageHandler<
+  SaveSessionRequest,
+  SaveSessionResponse
+> = async (req, res) => {
+  try {
+    const session = await saveSession(req.body?.name ?? "")
+    res.send({ success: true, session })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error"
+    res.send({ success: false, error: message })
+  }
+}
+
+export default handler
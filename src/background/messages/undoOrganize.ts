@@ -0,0 +1,54 @@
+import type { PlasmoMessaging } from "@plasmohq/messaging"
+import { restoreGroupSnapshot } from "~/lib/tabs"
+import { peekSnapshot, popSnapshot } from "~/lib/undo"
+import { getTaskState } from "~/background/taskManager"
+
+export type UndoOrganizeRequest = {
+  action: "undoOrganize"
+}
+
+export type UndoOrganizeResponse = {
+  success: boolean
+  restoredGroupCount?: number
+  error?: string
+}
+
+/**
+ * Restores the group layout saved before the last organize
+ * (also used by the keyboard shortcut).
+ *
+ * @returns Promise resolving to the number of groups restored
+ */
+export async function undoLastOrganize(): Promise<number> {
+  const { status } = await getTaskState()
+  if (status === "running") {
+    throw new Error("Task already running")
+  }
+  // The proposal was made against the current layout
+  if (status === "awaiting-approval") {
+    throw new Error("Approve or reject the pending proposal first")
+  }
+  const snapshot = await peekSnapshot()
+  if (!snapshot) {
+    throw new Error("Nothing to undo")
+  }
+  // Only drop the entry once it is restored, so a failed undo can be retried
+  const restored = await restoreGroupSnapshot(snapshot)
+  await popSnapshot()
+  return restored
+}
+
+const handler: PlasmoMessaging.MessageHandler<
+  UndoOrganizeRequest,
+  UndoOrganizeResponse
+> = async (req, res) => {
+  try {
+    const restoredGroupCount = await undoLastOrganize()
+    res.send({ success: true, restoredGroupCount })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error"
+    res.send({ success: false, error: message })
+  }
+}
+
+export default handler
@@ -1,5 +1,7 @@
 import type { PlasmoMessaging } from "@plasmohq/messaging"
-import { ungroupAllTabs } from "~/lib/tabs"
+import { ungroupAllTabs, getScopeWindowIds } from "~/lib/tabs"
+import { getSettings } from "~/lib/storage"
+import { getTaskState } from "~/background/taskManager"
 
 export type UngroupRequest = {
   action: "ungroup"
@@ -10,9 +12,27 @@ export type UngroupResponse = {
   error?: string
 }
 
+/**
+ * Removes every group in the windows in scope (also used by the keyboard shortcut)
+ */
+export async function ungroupWindows(): Promise<void> {
+  // A run or a pending proposal works on the current layout; rejecting must leave it as it was
+  const { status } = await getTaskState()
+  if (status === "running") {
+    throw new Error("Task already running")
+  }
+  if (status === "awaiting-approval") {
+    throw new Error("Approve or reject the pending proposal first")
+  }
+  const { windowScope } = await getSettings()
+  for (const windowId of await getScopeWindowIds(windowScope)) {
+    await ungroupAllTabs(windowId)
+  }
+}
+
 const handler: PlasmoMessaging.MessageHandler<UngroupRequest, UngroupResponse> = async (req, res) => {
   try {
-    await ungroupAllTabs()
+    await ungroupWindows()
     res.send({ success: true })
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error"
@@ -1,4 +1,13 @@
-import type { TaskState, TaskPhase, TaskResult } from "~/lib/types"
+import type {
+  TaskState,
+  TaskPhase,
+  TaskResult,
+  TabGroup,
+  DuplicateSet,
+  StreamProgress,
+  TokenUsage
+} from "~/lib/types"
+import { markRunPhase, finishRun } from "~/lib/history"
 
 const STORAGE_KEY = "task_state"
 
@@ -22,25 +31,65 @@ export async function setTaskPhase(phase: TaskPhase): Promise<void> {
   const current = await getStoredState()
   if (current.status === "running") {
     await setStoredState({ ...current, phase })
+    await markRunPhase(phase)
   }
 }
 
-export async function startTask(): Promise<AbortController> {
+export async function setBatchProgress(completed: number, total: number): Promise<void> {
+  const current = await getStoredState()
+  if (current.status === "running") {
+    await setStoredState({ ...current, batches: { completed, total } })
+  }
+}
+
+export async function setStreamProgress(stream: StreamProgress): Promise<void> {
+  const current = await getStoredState()
+  if (current.status === "running") {
+    await setStoredState({ ...current, stream })
+  }
+}
+
+export async function startTask(phase: TaskPhase = "fetching-tabs"): Promise<AbortController> {
   abortController = new AbortController()
   await setStoredState({
     status: "running",
-    phase: "fetching-tabs",
+    phase,
     startedAt: Date.now()
   })
+  await markRunPhase(phase)
   return abortController
 }
 
+export async function awaitApproval(
+  proposal: TabGroup[],
+  tabTitles: Record<number, string>,
+  debug?: string[],
+  duplicates?: DuplicateSet[],
+  spend?: { usage: TokenUsage; cost?: number },
+  selectedOnly?: boolean
+): Promise<void> {
+  await setStoredState({
+    status: "awaiting-approval",
+    proposal,
+    tabTitles,
+    duplicates,
+    usage: spend?.usage,
+    cost: spend?.cost,
+    selectedOnly,
+    proposedAt: Date.now(),
+    debug
+  })
+  await markRunPhase("awaiting-approval")
+  abortController = null
+}
+
 export async function completeTask(result: TaskResult): Promise<void> {
   await setStoredState({
     status: "completed",
     result,
     completedAt: Date.now()
   })
+  await finishRun("completed")
   abortController = null
 }
 
@@ -50,6 +99,7 @@ export async function failTask(error: string): Promise<void> {
     error,
     failedAt: Date.now()
   })
+  await finishRun("error", error)
   abortController = null
 }
 
@@ -63,6 +113,7 @@ export async function cancelTask(): Promise<boolean> {
     status: "cancelled",
     cancelledAt: Date.now()
   })
+  await finishRun("cancelled")
   abortController = null
   return true
 }
@@ -76,3 +127,9 @@ export async function isRunning(): Promise<boolean> {
   const current = await getStoredState()
   return current.status === "running"
 }
+
+// A proposal waiting for review counts as busy: starting another run would replace it
+export async function isBusy(): Promise<boolean> {
+  const current = await getStoredState()
+  return current.status === "running" || current.status === "awaiting-approval"
+}
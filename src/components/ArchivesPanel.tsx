@@ -0,0 +1,114 @@
+import { useState, useEffect, useCallback } from "react"
+import { sendToBackground } from "@plasmohq/messaging"
+import type { TabArchive } from "~/lib/types"
+import type { ListArchivesResponse } from "~/background/messages/listArchives"
+import type { RestoreArchiveResponse } from "~/background/messages/restoreArchive"
+import type { DeleteArchiveResponse } from "~/background/messages/deleteArchive"
+
+/**
+ * Popup section listing archived stale tabs, with each archive reopenable
+ * as tab groups in the current window.
+ */
+export function ArchivesPanel() {
+  const [expanded, setExpanded] = useState(false)
+  const [archives, setArchives] = useState<TabArchive[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await sendToBackground<{}, ListArchivesResponse>({ name: "listArchives" })
+      setArchives(response?.archives ?? [])
+    } catch {
+      setArchives([])
+    }
+  }, [])
+
+  useEffect(() => {
+    if (expanded) refresh()
+  }, [expanded, refresh])
+
+  const handleRestore = async (id: string) => {
+    setError(null)
+    try {
+      const response = await sendToBackground<{ id: string }, RestoreArchiveResponse>({
+        name: "restoreArchive",
+        body: { id }
+      })
+      if (!response.success) {
+        setError(response.error || "Failed to reopen archive")
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to reopen archive")
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    setError(null)
+    try {
+      await sendToBackground<{ id: string }, DeleteArchiveResponse>({
+        name: "deleteArchive",
+        body: { id }
+      })
+      refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete archive")
+    }
+  }
+
+  return (
+    <div className="mt-3">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        aria-expanded={expanded}
+        aria-controls="archives-panel"
+        className="text-[11px] text-zinc-500 hover:text-zinc-300 transition-colors font-medium"
+      >
+        {expanded ? "↑ hide archives" : "↓ archived tabs"}
+      </button>
+
+      {expanded && (
+        <div id="archives-panel" className="mt-2 space-y-2">
+          {error && <p className="text-[11px] text-red-400">{error}</p>}
+
+          {archives.length === 0 ? (
+            <p className="text-[11px] text-zinc-500">No archived tabs</p>
+          ) : (
+            <ul className="max-h-40 overflow-auto space-y-1 pr-1">
+              {archives.map((archive) => {
+                const tabCount = archive.groups.reduce((sum, group) => sum + group.urls.length, 0)
+                const names = archive.groups.map((group) => group.name).join(", ")
+                return (
+                  <li key={archive.id} className="flex items-center gap-1.5 text-[11px]">
+                    <div className="flex-1 min-w-0">
+                      <p className="truncate text-zinc-300" title={names}>{names}</p>
+                      <p className="text-zinc-500">
+                        {tabCount} tabs · {new Date(archive.archivedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleRestore(archive.id)}
+                      title="Reopen as groups in this window"
+                      className="h-6 px-2 rounded text-zinc-300 bg-zinc-800/60 border border-zinc-700/50 hover:bg-zinc-700/60 transition-colors"
+                    >
+                      Reopen
+                    </button>
+                    <button
+                      onClick={() => handleDelete(archive.id)}
+                      aria-label={`Forget archive from ${new Date(archive.archivedAt).toLocaleDateString()}`}
+                      title="Forget archive (bookmarks are kept)"
+                      className="h-6 w-6 flex items-center justify-center rounded text-zinc-500 hover:text-red-400 hover:bg-zinc-700/60 transition-colors"
+                    >
+                      <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+import { useState } from "react"
+
+interface ExcludedSitesEditorProps {
+  sites: string[]
+  onChange: (sites: string[]) => void
+}
+
+/**
+ * Options page list of hostnames that organize never touches
+ */
+export function ExcludedSitesEditor({ sites, onChange }: ExcludedSitesEditorProps) {
+  const [draft, setDraft] = useState("")
+
+  const addSite = () => {
+    const site = draft.trim().toLowerCase().replace(/^www\./, "")
+    if (site && !sites.includes(site)) {
+      onChange([...sites, site])
+    }
+    setDraft("")
+  }
+
+  const inputClass = `h-9 px-2.5 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-xs
+                      focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                      transition-all duration-200`
+
+  return (
+    <div className="space-y-2">
+      {sites.length > 0 && (
+        <ul className="flex flex-wrap gap-1.5">
+          {sites.map((site) => (
+            <li
+              key={site}
+              className="flex items-center gap-1 pl-2.5 pr-1 h-7 rounded-md bg-zinc-800/60 border border-zinc-700/50 text-xs font-mono text-zinc-300"
+            >
+              {site}
+              <button
+                onClick={() => onChange(sites.filter((s) => s !== site))}
+                aria-label={`Stop excluding ${site}`}
+                className="h-5 w-5 flex items-center justify-center rounded text-zinc-500 hover:text-red-400 transition-colors"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && addSite()}
+          placeholder="mail.google.com"
+          aria-label="Site to exclude"
+          className={`${inputClass} flex-1 min-w-0 font-mono`}
+        />
+        <button
+          onClick={addSite}
+          disabled={!draft.trim()}
+          className="h-9 px-3.5 text-xs font-medium text-zinc-300 bg-zinc-800/60 border border-zinc-700/50 rounded-lg
+                     hover:bg-zinc-700/60 hover:border-zinc-600/50 transition-all duration-200
+                     disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Exclude site
+        </button>
+      </div>
+    </div>
+  )
+}
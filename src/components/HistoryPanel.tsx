@@ -0,0 +1,120 @@
+import { useState, useEffect } from "react"
+import { sendToBackground } from "@plasmohq/messaging"
+import type { RunRecord, RunOutcome } from "~/lib/types"
+import { getRunHistory, clearRunHistory } from "~/lib/history"
+import type { ReapplyRunResponse } from "~/background/messages/reapplyRun"
+
+const OUTCOME_STYLES: Record<RunOutcome, string> = {
+  completed: "text-emerald-400",
+  error: "text-red-400",
+  cancelled: "text-zinc-400",
+  rejected: "text-amber-400"
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+}
+
+/**
+ * Options page list of past organize runs, with the grouping and phase
+ * timings of each and a button to re-apply its grouping to open tabs.
+ */
+export function HistoryPanel() {
+  const [runs, setRuns] = useState<RunRecord[]>([])
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null)
+
+  useEffect(() => {
+    getRunHistory().then(setRuns)
+  }, [])
+
+  const handleReapply = async (id: string) => {
+    setMessage(null)
+    try {
+      const response = await sendToBackground<{ id: string }, ReapplyRunResponse>({
+        name: "reapplyRun",
+        body: { id }
+      })
+      setMessage(
+        response.success
+          ? { text: `Re-applied ${response.groupCount} groups to ${response.tabCount} open tabs`, error: false }
+          : { text: response.error || "Failed to re-apply run", error: true }
+      )
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : "Failed to re-apply run", error: true })
+    }
+  }
+
+  const handleClear = async () => {
+    await clearRunHistory()
+    setRuns([])
+  }
+
+  const buttonClass = `h-7 px-2.5 text-xs font-medium text-zinc-300 bg-zinc-800/60 border border-zinc-700/50 rounded-lg
+                       hover:bg-zinc-700/60 hover:border-zinc-600/50 transition-all duration-200
+                       disabled:opacity-50 disabled:cursor-not-allowed`
+
+  if (runs.length === 0) {
+    return <p className="text-xs text-zinc-500">No runs recorded yet.</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {message && (
+        <p className={`text-xs ${message.error ? "text-red-400" : "text-emerald-400"}`}>{message.text}</p>
+      )}
+      <ul className="space-y-1.5 max-h-96 overflow-y-auto">
+        {runs.map((run) => {
+          const expanded = expandedId === run.id
+          const tabCount = run.groups.reduce((sum, group) => sum + group.urls.length, 0)
+          return (
+            <li key={run.id} className="rounded-lg bg-zinc-800/30 border border-zinc-800/60 text-xs">
+              <div className="flex items-center gap-2 px-3 py-2">
+                <button
+                  onClick={() => setExpandedId(expanded ? null : run.id)}
+                  aria-expanded={expanded}
+                  className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                >
+                  <span className="text-zinc-300 whitespace-nowrap">{new Date(run.startedAt).toLocaleString()}</span>
+                  <span className={OUTCOME_STYLES[run.outcome]}>{run.outcome}</span>
+                  <span className="text-zinc-500 truncate">
+                    {run.trigger} · {run.offline ? "offline" : run.model ?? run.organizer} · {run.tabCount} tabs ·{" "}
+                    {formatDuration(run.endedAt - run.startedAt)}
+                  </span>
+                </button>
+                <button
+                  onClick={() => handleReapply(run.id)}
+                  disabled={tabCount === 0}
+                  title="Group the open tabs the way this run did"
+                  className={buttonClass}
+                >
+                  Re-apply
+                </button>
+              </div>
+
+              {expanded && (
+                <div className="px-3 pb-3 space-y-2 text-zinc-400">
+                  {run.error && <p className="text-red-400">{run.error}</p>}
+                  {run.groups.length > 0 && (
+                    <ul className="space-y-0.5">
+                      {run.groups.map((group, index) => (
+                        <li key={index} className="flex justify-between gap-3">
+                          <span className="truncate">{group.name}</span>
+                          <span className="text-zinc-500">{group.urls.length}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <p className="text-zinc-500">
+                    {run.phases.map((timing) => `${timing.phase} ${formatDuration(timing.ms)}`).join(" · ")}
+                  </p>
+                </div>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+      <button onClick={handleClear} className={buttonClass}>Clear history</button>
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+import type { PromptTemplate } from "~/lib/types"
+import { DEFAULT_PROMPT_ID, DEFAULT_PROMPT_TEMPLATE, PROMPT_VARIABLES } from "~/lib/prompts"
+
+interface PromptEditorProps {
+  templates: PromptTemplate[] // Built-in template first
+  activeId: string
+  onChange: (templates: PromptTemplate[]) => void
+  onSelect: (id: string) => void
+}
+
+/**
+ * Options page editor for named system prompt templates.
+ * The built-in template is read-only; duplicate it to make changes.
+ */
+export function PromptEditor({ templates, activeId, onChange, onSelect }: PromptEditorProps) {
+  const active = templates.find((template) => template.id === activeId) ?? templates[0]
+  const isDefault = active.id === DEFAULT_PROMPT_ID
+
+  const updateActive = (changes: Partial<PromptTemplate>) => {
+    onChange(templates.map((template) => (template.id === active.id ? { ...template, ...changes } : template)))
+  }
+
+  const duplicate = () => {
+    const copy: PromptTemplate = {
+      id: crypto.randomUUID(),
+      name: `${active.name} copy`,
+      system: active.system
+    }
+    onChange([...templates, copy])
+    onSelect(copy.id)
+  }
+
+  const remove = () => {
+    onChange(templates.filter((template) => template.id !== active.id))
+    onSelect(DEFAULT_PROMPT_ID)
+  }
+
+  const inputClass = `h-9 px-2.5 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-xs
+                      focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                      transition-all duration-200`
+  const buttonClass = `h-9 px-3 text-xs font-medium text-zinc-300 bg-zinc-800/60 border border-zinc-700/50 rounded-lg
+                       hover:bg-zinc-700/60 hover:border-zinc-600/50 transition-all duration-200
+                       disabled:opacity-50 disabled:cursor-not-allowed`
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <select
+          value={active.id}
+          onChange={(e) => onSelect(e.target.value)}
+          aria-label="Prompt template"
+          className={`${inputClass} flex-1 min-w-0`}
+        >
+          {templates.map((template) => (
+            <option key={template.id} value={template.id}>{template.name || "Untitled"}</option>
+          ))}
+        </select>
+        <button onClick={duplicate} className={buttonClass}>Duplicate</button>
+        <button onClick={remove} disabled={isDefault} className={buttonClass}>Delete</button>
+      </div>
+
+      {!isDefault && (
+        <input
+          type="text"
+          value={active.name}
+          onChange={(e) => updateActive({ name: e.target.value })}
+          placeholder="Template name"
+          aria-label="Template name"
+          className={`${inputClass} w-full`}
+        />
+      )}
+
+      <textarea
+        value={active.system}
+        onChange={(e) => updateActive({ system: e.target.value })}
+        readOnly={isDefault}
+        rows={14}
+        aria-label="System prompt"
+        className="w-full px-2.5 py-2 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-xs font-mono leading-relaxed
+                   focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                   transition-all duration-200 read-only:opacity-70"
+      />
+
+      <div className="flex items-start justify-between gap-3">
+        <ul className="text-[11px] text-zinc-500 space-y-0.5">
+          {Object.entries(PROMPT_VARIABLES).map(([name, description]) => (
+            <li key={name}>
+              <code className="text-zinc-300">{`{{${name}}}`}</code> — {description}
+            </li>
+          ))}
+        </ul>
+        <button
+          onClick={() => updateActive({ system: DEFAULT_PROMPT_TEMPLATE })}
+          disabled={isDefault || active.system === DEFAULT_PROMPT_TEMPLATE}
+          className={`${buttonClass} flex-shrink-0`}
+        >
+          Reset to default
+        </button>
+      </div>
+
+      {isDefault && (
+        <p className="text-xs text-zinc-500">
+          The default prompt can't be edited. Duplicate it to add your own conventions.
+        </p>
+      )}
+    </div>
+  )
+}
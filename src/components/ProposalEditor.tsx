@@ -0,0 +1,129 @@
+import { useState, useEffect } from "react"
+import type { TabGroup } from "~/lib/types"
+import { GROUP_COLORS, COLOR_DOT_CLASSES } from "~/components/colors"
+
+interface ProposalEditorProps {
+  proposal: TabGroup[]
+  tabTitles: Record<number, string>
+  onApprove: (groups: TabGroup[]) => void
+  onReject: () => void
+}
+
+/**
+ * Editable list of AI-proposed groups shown before they are applied.
+ * Groups can be renamed, recolored or dropped, and tabs moved between groups.
+ */
+export function ProposalEditor({ proposal, tabTitles, onApprove, onReject }: ProposalEditorProps) {
+  const [groups, setGroups] = useState<TabGroup[]>(proposal)
+
+  // Reset edits when a new proposal arrives
+  useEffect(() => {
+    setGroups(proposal)
+  }, [proposal])
+
+  const updateGroup = (index: number, changes: Partial<TabGroup>) => {
+    setGroups((prev) => prev.map((group, i) => (i === index ? { ...group, ...changes } : group)))
+  }
+
+  const dropGroup = (index: number) => {
+    setGroups((prev) => prev.filter((_, i) => i !== index))
+  }
+
+  const moveTab = (tabId: number, from: number, to: number) => {
+    setGroups((prev) =>
+      prev.map((group, i) => {
+        if (i === from) return { ...group, tabIds: group.tabIds.filter((id) => id !== tabId) }
+        if (i === to) return { ...group, tabIds: [...group.tabIds, tabId] }
+        return group
+      })
+    )
+  }
+
+  const nonEmpty = groups.filter((group) => group.tabIds.length > 0)
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="max-h-64 overflow-auto space-y-2 pr-1">
+        {groups.map((group, groupIndex) => (
+          <div
+            key={groupIndex}
+            className="p-2 rounded-lg border border-zinc-700/50 bg-zinc-800/40"
+          >
+            <div className="flex items-center gap-1.5">
+              <span className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${COLOR_DOT_CLASSES[group.color] ?? "bg-zinc-400"}`} />
+              <input
+                type="text"
+                value={group.name}
+                onChange={(e) => updateGroup(groupIndex, { name: e.target.value })}
+                aria-label="Group name"
+                className="flex-1 min-w-0 h-7 px-2 bg-zinc-900/60 border border-zinc-700/50 rounded text-xs
+                           focus:outline-none focus:border-blue-500/50"
+              />
+              <select
+                value={group.color}
+                onChange={(e) => updateGroup(groupIndex, { color: e.target.value as TabGroup["color"] })}
+                aria-label="Group color"
+                className="h-7 px-1 bg-zinc-900/60 border border-zinc-700/50 rounded text-[11px]
+                           focus:outline-none focus:border-blue-500/50"
+              >
+                {GROUP_COLORS.map((color) => (
+                  <option key={color} value={color}>{color}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => dropGroup(groupIndex)}
+                aria-label={`Drop group ${group.name}`}
+                title="Drop group (its tabs stay ungrouped)"
+                className="h-7 w-7 flex items-center justify-center rounded text-zinc-500 hover:text-red-400 hover:bg-zinc-700/60 transition-colors"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <ul className="mt-1.5 space-y-0.5">
+              {group.tabIds.map((tabId) => (
+                <li key={tabId} className="flex items-center gap-1.5 text-[11px] text-zinc-400">
+                  <span className="flex-1 min-w-0 truncate" title={tabTitles[tabId]}>
+                    {tabTitles[tabId] ?? `Tab ${tabId}`}
+                  </span>
+                  <select
+                    value={groupIndex}
+                    onChange={(e) => moveTab(tabId, groupIndex, Number(e.target.value))}
+                    aria-label="Move tab to group"
+                    className="w-20 h-5 bg-zinc-900/60 border border-zinc-700/50 rounded text-[10px]
+                               focus:outline-none focus:border-blue-500/50"
+                  >
+                    {groups.map((target, targetIndex) => (
+                      <option key={targetIndex} value={targetIndex}>{target.name || "Unnamed"}</option>
+                    ))}
+                  </select>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onReject}
+          className="h-9 px-4 text-xs font-medium text-zinc-400 bg-zinc-800/60 rounded-lg
+                     border border-zinc-700/50 hover:bg-zinc-700/60 hover:text-zinc-200
+                     hover:border-zinc-600/50 transition-all duration-200"
+        >
+          Reject
+        </button>
+        <button
+          onClick={() => onApprove(nonEmpty)}
+          disabled={nonEmpty.length === 0}
+          className="flex-1 h-9 text-xs font-semibold rounded-lg transition-all duration-200
+                     bg-gradient-to-r from-zinc-100 to-zinc-50 text-zinc-900 hover:from-white hover:to-zinc-100
+                     disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Apply {nonEmpty.length} groups
+        </button>
+      </div>
+    </div>
+  )
+}
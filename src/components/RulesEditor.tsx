@@ -0,0 +1,128 @@
+import type { GroupRule, RuleMatchType } from "~/lib/types"
+import { GROUP_COLORS, COLOR_DOT_CLASSES } from "~/components/colors"
+
+const MATCH_LABELS: Record<RuleMatchType, { label: string; placeholder: string }> = {
+  hostname: { label: "Hostname", placeholder: "acme.atlassian.net" },
+  "url-glob": { label: "URL glob", placeholder: "http://localhost:*" },
+  "url-regex": { label: "URL regex", placeholder: "^https://github\\.com/acme/" },
+  "title-regex": { label: "Title regex", placeholder: "\\bPR #\\d+" }
+}
+
+interface RulesEditorProps {
+  rules: GroupRule[]
+  onChange: (rules: GroupRule[]) => void
+}
+
+/**
+ * Options page editor for deterministic grouping rules.
+ * Rules are checked top to bottom; the first match wins.
+ */
+export function RulesEditor({ rules, onChange }: RulesEditorProps) {
+  const updateRule = (id: string, changes: Partial<GroupRule>) => {
+    onChange(rules.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)))
+  }
+
+  const removeRule = (id: string) => {
+    onChange(rules.filter((rule) => rule.id !== id))
+  }
+
+  const addRule = () => {
+    onChange([
+      ...rules,
+      {
+        id: crypto.randomUUID(),
+        match: "hostname",
+        pattern: "",
+        groupName: "",
+        color: "blue",
+        enabled: true
+      }
+    ])
+  }
+
+  const inputClass = `h-9 px-2.5 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-xs
+                      focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                      transition-all duration-200`
+
+  return (
+    <div className="space-y-3">
+      {rules.length === 0 && (
+        <p className="text-xs text-zinc-500">
+          No rules yet. Matching tabs are grouped without asking the AI.
+        </p>
+      )}
+
+      {rules.map((rule) => (
+        <div key={rule.id} className="p-3 rounded-lg border border-zinc-800/60 bg-zinc-900/40 space-y-2">
+          <div className="flex gap-2">
+            <select
+              value={rule.match}
+              onChange={(e) => updateRule(rule.id, { match: e.target.value as RuleMatchType })}
+              aria-label="Match type"
+              className={`${inputClass} w-28`}
+            >
+              {Object.entries(MATCH_LABELS).map(([value, { label }]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={rule.pattern}
+              onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+              placeholder={MATCH_LABELS[rule.match].placeholder}
+              aria-label="Pattern"
+              className={`${inputClass} flex-1 min-w-0 font-mono`}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <span className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${COLOR_DOT_CLASSES[rule.color] ?? "bg-zinc-400"}`} />
+            <input
+              type="text"
+              value={rule.groupName}
+              onChange={(e) => updateRule(rule.id, { groupName: e.target.value })}
+              placeholder="🎫 Tickets"
+              aria-label="Group name"
+              className={`${inputClass} flex-1 min-w-0`}
+            />
+            <select
+              value={rule.color}
+              onChange={(e) => updateRule(rule.id, { color: e.target.value as GroupRule["color"] })}
+              aria-label="Group color"
+              className={`${inputClass} w-24`}
+            >
+              {GROUP_COLORS.map((color) => (
+                <option key={color} value={color}>{color}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 text-xs text-zinc-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+              />
+              On
+            </label>
+            <button
+              onClick={() => removeRule(rule.id)}
+              aria-label="Remove rule"
+              title="Remove rule"
+              className="h-9 w-9 flex items-center justify-center rounded-lg text-zinc-500 hover:text-red-400 hover:bg-zinc-800/60 transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={addRule}
+        className="h-9 px-3.5 text-xs font-medium text-zinc-300 bg-zinc-800/60 border border-zinc-700/50 rounded-lg
+                   hover:bg-zinc-700/60 hover:border-zinc-600/50 transition-all duration-200"
+      >
+        + Add rule
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+import { useState, useEffect, useCallback } from "react"
+import { sendToBackground } from "@plasmohq/messaging"
+import type { SavedSession } from "~/lib/types"
+import type { ListSessionsResponse } from "~/background/messages/listSessions"
+import type { SaveSessionResponse } from "~/background/messages/saveSession"
+import type { RestoreSessionResponse } from "~/background/messages/restoreSession"
+import type { DeleteSessionResponse } from "~/background/messages/deleteSession"
+
+/**
+ * Popup section for saving the current window's groups as a named
+ * session and reopening saved sessions in a new window.
+ */
+export function SessionsPanel() {
+  const [expanded, setExpanded] = useState(false)
+  const [sessions, setSessions] = useState<SavedSession[]>([])
+  const [name, setName] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await sendToBackground<{}, ListSessionsResponse>({ name: "listSessions" })
+      setSessions(response?.sessions ?? [])
+    } catch {
+      setSessions([])
+    }
+  }, [])
+
+  useEffect(() => {
+    if (expanded) refresh()
+  }, [expanded, refresh])
+
+  const handleSave = async () => {
+    setError(null)
+    try {
+      const response = await sendToBackground<{ name: string }, SaveSessionResponse>({
+        name: "saveSession",
+        body: { name }
+      })
+      if (!response.success) {
+        setError(response.error || "Failed to save session")
+        return
+      }
+      setName("")
+      refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save session")
+    }
+  }
+
+  const handleRestore = async (id: string) => {
+    setError(null)
+    try {
+      const response = await sendToBackground<{ id: string }, RestoreSessionResponse>({
+        name: "restoreSession",
+        body: { id }
+      })
+      if (!response.success) {
+        setError(response.error || "Failed to restore session")
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to restore session")
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    setError(null)
+    try {
+      await sendToBackground<{ id: string }, DeleteSessionResponse>({
+        name: "deleteSession",
+        body: { id }
+      })
+      refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete session")
+    }
+  }
+
+  return (
+    <div className="mt-3">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        aria-expanded={expanded}
+        aria-controls="sessions-panel"
+        className="text-[11px] text-zinc-500 hover:text-zinc-300 transition-colors font-medium"
+      >
+        {expanded ? "↑ hide sessions" : "↓ saved sessions"}
+      </button>
+
+      {expanded && (
+        <div id="sessions-panel" className="mt-2 space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && name.trim() && handleSave()}
+              placeholder="Session name"
+              aria-label="Session name"
+              className="flex-1 min-w-0 h-8 px-2.5 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-xs
+                         focus:outline-none focus:border-blue-500/50"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!name.trim()}
+              className="h-8 px-3 text-[11px] font-medium text-zinc-300 bg-zinc-800/60 rounded-lg
+                         border border-zinc-700/50 hover:bg-zinc-700/60 hover:text-zinc-100
+                         disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              Save groups
+            </button>
+          </div>
+
+          {error && <p className="text-[11px] text-red-400">{error}</p>}
+
+          {sessions.length === 0 ? (
+            <p className="text-[11px] text-zinc-500">No saved sessions</p>
+          ) : (
+            <ul className="max-h-40 overflow-auto space-y-1 pr-1">
+              {sessions.map((session) => {
+                const tabCount = session.groups.reduce((sum, group) => sum + group.urls.length, 0)
+                return (
+                  <li key={session.id} className="flex items-center gap-1.5 text-[11px]">
+                    <div className="flex-1 min-w-0">
+                      <p className="truncate text-zinc-300" title={session.name}>{session.name}</p>
+                      <p className="text-zinc-500">
+                        {session.groups.length} groups · {tabCount} tabs · {new Date(session.savedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleRestore(session.id)}
+                      title="Open in a new window"
+                      className="h-6 px-2 rounded text-zinc-300 bg-zinc-800/60 border border-zinc-700/50 hover:bg-zinc-700/60 transition-colors"
+                    >
+                      Open
+                    </button>
+                    <button
+                      onClick={() => handleDelete(session.id)}
+                      aria-label={`Delete session ${session.name}`}
+                      title="Delete session"
+                      className="h-6 w-6 flex items-center justify-center rounded text-zinc-500 hover:text-red-400 hover:bg-zinc-700/60 transition-colors"
+                    >
+                      <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
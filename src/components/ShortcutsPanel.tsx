@@ -0,0 +1,42 @@
+import { useState, useEffect } from "react"
+
+// Chrome doesn't allow linking to this page, so it is opened with chrome.tabs
+const SHORTCUTS_URL = "chrome://extensions/shortcuts"
+
+/**
+ * Options page list of the extension's keyboard shortcuts and their
+ * current bindings, which are changed in the browser's own settings.
+ */
+export function ShortcutsPanel() {
+  const [commands, setCommands] = useState<chrome.commands.Command[]>([])
+
+  useEffect(() => {
+    chrome.commands.getAll().then((all) => setCommands(all.filter((command) => command.description)))
+  }, [])
+
+  return (
+    <div className="space-y-3">
+      <ul className="space-y-1.5 text-sm">
+        {commands.map((command) => (
+          <li key={command.name} className="flex items-center justify-between gap-3">
+            <span className="text-zinc-300">{command.description}</span>
+            {command.shortcut ? (
+              <kbd className="px-2 py-0.5 rounded-md bg-zinc-800/80 border border-zinc-700/50 text-xs font-mono text-zinc-200">
+                {command.shortcut}
+              </kbd>
+            ) : (
+              <span className="text-xs text-zinc-500">Not set</span>
+            )}
+          </li>
+        ))}
+      </ul>
+      <button
+        onClick={() => chrome.tabs.create({ url: SHORTCUTS_URL })}
+        className="h-9 px-3.5 text-xs font-medium text-zinc-300 bg-zinc-800/60 border border-zinc-700/50 rounded-lg
+                   hover:bg-zinc-700/60 hover:border-zinc-600/50 transition-all duration-200"
+      >
+        Change shortcuts
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,161 @@
+import { useState, useEffect, useMemo } from "react"
+import type { ModelPrice, UsageRecord } from "~/lib/types"
+import { getUsageHistory, clearUsageHistory, summarizeUsage, monthToDateCost, totalTokens } from "~/lib/usage"
+
+// Days listed in the per-day table
+const DAYS_SHOWN = 14
+
+interface UsagePanelProps {
+  prices: ModelPrice[]
+  onPricesChange: (prices: ModelPrice[]) => void
+  monthlyBudget: number
+}
+
+function formatCost(cost: number, unpriced: boolean): string {
+  if (cost === 0 && unpriced) return "—"
+  return `$${cost.toFixed(cost < 1 ? 4 : 2)}${unpriced ? "+" : ""}`
+}
+
+/**
+ * Options page section showing token usage per day and per model, with
+ * the price table used to estimate costs.
+ */
+export function UsagePanel({ prices, onPricesChange, monthlyBudget }: UsagePanelProps) {
+  const [history, setHistory] = useState<UsageRecord[]>([])
+
+  useEffect(() => {
+    getUsageHistory().then(setHistory)
+  }, [])
+
+  const { byDay, byModel } = useMemo(() => summarizeUsage(history), [history])
+  const monthCost = useMemo(() => monthToDateCost(history), [history])
+
+  const updatePrice = (index: number, changes: Partial<ModelPrice>) => {
+    onPricesChange(prices.map((price, i) => (i === index ? { ...price, ...changes } : price)))
+  }
+
+  const handleClear = async () => {
+    await clearUsageHistory()
+    setHistory([])
+  }
+
+  const inputClass = `h-9 px-2.5 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-xs
+                      focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                      transition-all duration-200`
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-zinc-300">
+        This month: <span className="font-semibold">${monthCost.toFixed(2)}</span>
+        {monthlyBudget > 0 && <span className="text-zinc-500"> of ${monthlyBudget.toFixed(2)} budget</span>}
+      </p>
+
+      {history.length === 0 ? (
+        <p className="text-xs text-zinc-500">No usage recorded yet.</p>
+      ) : (
+        <div className="grid grid-cols-2 gap-4 text-xs">
+          <table className="w-full">
+            <thead>
+              <tr className="text-zinc-500 text-left">
+                <th className="font-medium pb-1">Day</th>
+                <th className="font-medium pb-1 text-right">Tokens</th>
+                <th className="font-medium pb-1 text-right">Cost</th>
+              </tr>
+            </thead>
+            <tbody className="text-zinc-300">
+              {byDay.slice(0, DAYS_SHOWN).map(([day, totals]) => (
+                <tr key={day}>
+                  <td>{day}</td>
+                  <td className="text-right">{totalTokens(totals).toLocaleString()}</td>
+                  <td className="text-right">{formatCost(totals.cost, totals.unpriced)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <table className="w-full">
+            <thead>
+              <tr className="text-zinc-500 text-left">
+                <th className="font-medium pb-1">Model</th>
+                <th className="font-medium pb-1 text-right">Tokens</th>
+                <th className="font-medium pb-1 text-right">Cost</th>
+              </tr>
+            </thead>
+            <tbody className="text-zinc-300">
+              {byModel.map(([model, totals]) => (
+                <tr key={model} title={`${totals.promptTokens.toLocaleString()} in · ${totals.completionTokens.toLocaleString()} out · ${totals.reasoningTokens.toLocaleString()} reasoning`}>
+                  <td className="truncate max-w-[8rem]">{model}</td>
+                  <td className="text-right">{totalTokens(totals).toLocaleString()}</td>
+                  <td className="text-right">{formatCost(totals.cost, totals.unpriced)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-zinc-400">Prices (USD per million tokens)</p>
+        {prices.map((price, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={price.model}
+              onChange={(e) => updatePrice(index, { model: e.target.value })}
+              placeholder="gpt-4o-mini"
+              aria-label="Model"
+              className={`${inputClass} flex-1 min-w-0 font-mono`}
+            />
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={price.inputPerMillion}
+              onChange={(e) => updatePrice(index, { inputPerMillion: Number(e.target.value) })}
+              aria-label="Input price per million tokens"
+              title="Input"
+              className={`${inputClass} w-20`}
+            />
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={price.outputPerMillion}
+              onChange={(e) => updatePrice(index, { outputPerMillion: Number(e.target.value) })}
+              aria-label="Output price per million tokens"
+              title="Output"
+              className={`${inputClass} w-20`}
+            />
+            <button
+              onClick={() => onPricesChange(prices.filter((_, i) => i !== index))}
+              aria-label="Remove price"
+              title="Remove price"
+              className="h-9 w-9 flex items-center justify-center rounded-lg text-zinc-500 hover:text-red-400 hover:bg-zinc-800/60 transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <button
+            onClick={() => onPricesChange([...prices, { model: "", inputPerMillion: 0, outputPerMillion: 0 }])}
+            className="h-9 px-3.5 text-xs font-medium text-zinc-300 bg-zinc-800/60 border border-zinc-700/50 rounded-lg
+                       hover:bg-zinc-700/60 hover:border-zinc-600/50 transition-all duration-200"
+          >
+            + Add price
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={history.length === 0}
+            className="h-9 px-3.5 text-xs font-medium text-zinc-400 bg-zinc-800/60 border border-zinc-700/50 rounded-lg
+                       hover:bg-zinc-700/60 hover:text-red-400 transition-all duration-200
+                       disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Clear history
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,14 @@
+export const GROUP_COLORS = ["grey", "blue", "red", "yellow", "green", "pink", "purple", "cyan", "orange"] as const
+
+// Tailwind needs literal class names, so map each group color explicitly
+export const COLOR_DOT_CLASSES: Record<string, string> = {
+  grey: "bg-zinc-400",
+  blue: "bg-blue-500",
+  red: "bg-red-500",
+  yellow: "bg-yellow-400",
+  green: "bg-green-500",
+  pink: "bg-pink-400",
+  purple: "bg-purple-500",
+  cyan: "bg-cyan-400",
+  orange: "bg-orange-400"
+}
@@ -1,23 +1,47 @@
-import type { Settings, TabInfo, AIResponse, TabGroup } from "./types"
+import type {
+  Settings,
+  TabInfo,
+  AIResponse,
+  TabGroup,
+  ExistingGroup,
+  ApiProvider,
+  StreamProgress,
+  TokenUsage
+} from "./types"
+import { splitIntoBatches, runWithConcurrency, reconcileGroups } from "./batches"
+import { readEventStream, createGroupTracker } from "./stream"
+import { DEFAULT_PROMPT_TEMPLATE, renderPromptTemplate } from "./prompts"
 
-const SYSTEM_PROMPT = `You are a browser tab organizer. Create precise, task-focused groups.
+// Appended to the system prompt when existing groups are kept (incremental mode)
+const INCREMENTAL_INSTRUCTIONS = `The user already has some tab groups, listed as "Group N" in the message. Place each ungrouped tab into the best existing group when it clearly belongs there, otherwise create new groups as described above.
+- Only list ungrouped tab indices in tabIds
+- Use "existingGroup" with the group number instead of a name to add to an existing group:
+{"groups":[{"existingGroup":0,"tabIds":[3]},{"name":"💻 Work","color":"blue","tabIds":[0,1,2]}]}`
 
-Guidelines:
-- Create SPECIFIC groups (e.g. "🛠️ React Debugging" not "💻 Development")
-- Prefer more smaller groups over fewer large ones
-- Split by distinct tasks/topics, even within same domain
-- Max 6-8 tabs per group - split larger sets by subtask
-- ALWAYS prefix names with relevant emoji
-- Every tab must be in exactly one group
+// Appended to the system prompt with the groups from before this run
+const PREVIOUS_GROUPS_INSTRUCTIONS = `The user's previous groups are listed below. When a new group covers the same topic as a previous one, reuse its exact name and color so the layout stays familiar:`
 
-Return ONLY valid JSON:
-{"groups":[{"name":"💻 Work","color":"blue","tabIds":[0,1,2]}]}
-
-Colors: grey, blue, red, yellow, green, pink, purple, cyan, orange`
+// Max member tabs listed per existing group in incremental prompts
+const MAX_EXISTING_MEMBERS = 8
 
 // Request timeout in milliseconds (60 seconds)
 const REQUEST_TIMEOUT_MS = 60000
 
+// Anthropic Messages API settings
+const ANTHROPIC_VERSION = "2023-06-01"
+const ANTHROPIC_MAX_TOKENS = 8192
+const ANTHROPIC_THINKING_BUDGETS: Record<Exclude<Settings["reasoningEffort"], "off">, number> = {
+  low: 1024,
+  medium: 4096,
+  high: 16000
+}
+
+// Endpoint+model pairs that rejected a JSON schema, so later runs skip it
+const STRUCTURED_UNSUPPORTED_KEY = "structured_output_unsupported"
+// Error bodies that blame the schema fields rather than the rest of the request; a bare
+// "format" is left out, as it also appears in errors about messages or other fields
+const SCHEMA_ERROR_PATTERN = /response_format|json_schema|output_format|structured[ _-]?outputs?/i
+
 // Retry configuration
 const MAX_RETRIES = 2
 const RETRY_DELAY_MS = 1000 // Initial delay, doubles on each retry
@@ -29,6 +53,15 @@ async function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms))
 }
 
+// Don't expose full error details to UI - may contain sensitive info
+const STATUS_MESSAGES: Record<number, string> = {
+  401: "Invalid API key",
+  403: "Access denied - check API key permissions",
+  429: "Rate limited - please wait and try again",
+  500: "API server error - try again later",
+  503: "API service unavailable - try again later"
+}
+
 /**
  * Determines if an error is retryable (network errors, rate limits, server errors)
  */
@@ -41,7 +74,7 @@ function isRetryableError(status?: number): boolean {
  * Sanitizes a URL to include only origin and first path segment
  * This reduces token usage when sending URLs to the AI
  */
-function sanitizeUrl(url: string): string {
+export function sanitizeUrl(url: string): string {
   if (!url || typeof url !== "string") return "(invalid URL)"
   
   try {
@@ -74,7 +107,33 @@ function createTabMapping(tabs: TabInfo[]): TabMapping {
   return { indexToId, idToIndex }
 }
 
-function buildUserPrompt(tabs: TabInfo[]): string {
+/**
+ * Renders the system prompt template, adding the incremental instructions
+ * when there are existing groups to place tabs into
+ */
+function buildSystemPrompt(
+  template: string,
+  settings: Settings,
+  existingGroups?: ExistingGroup[],
+  previousGroups?: ExistingGroup[]
+): string {
+  const incremental = !!existingGroups && existingGroups.length > 0
+  let system = renderPromptTemplate(template, {
+    maxTabsPerGroup: String(settings.maxTabsPerGroup),
+    colors: VALID_COLORS.join(", "),
+    existingGroups: incremental ? existingGroups!.map((group) => group.name).join(", ") : "none"
+  })
+  if (incremental) {
+    system += `\n\n${INCREMENTAL_INSTRUCTIONS}`
+  }
+  if (previousGroups && previousGroups.length > 0) {
+    const labels = previousGroups.map((group) => `- "${group.name}" (${group.color})`).join("\n")
+    system += `\n\n${PREVIOUS_GROUPS_INSTRUCTIONS}\n${labels}`
+  }
+  return system
+}
+
+function buildUserPrompt(tabs: TabInfo[], existingGroups?: ExistingGroup[]): string {
   if (!Array.isArray(tabs) || tabs.length === 0) {
     throw new Error("No tabs provided")
   }
@@ -87,15 +146,35 @@ function buildUserPrompt(tabs: TabInfo[]): string {
       return `${index}: "${title}" | ${url}`
     })
     .join("\n")
-  return `Organize these tabs:\n\n${tabList}`
+
+  if (!existingGroups || existingGroups.length === 0) {
+    return `Organize these tabs:\n\n${tabList}`
+  }
+
+  const groupList = existingGroups
+    .map((group, index) => {
+      const members = group.tabs
+        .slice(0, MAX_EXISTING_MEMBERS)
+        .map((t) => `  - "${t.title || "Untitled"}" | ${sanitizeUrl(t.url)}`)
+      if (group.tabs.length > MAX_EXISTING_MEMBERS) {
+        members.push(`  - ...and ${group.tabs.length - MAX_EXISTING_MEMBERS} more`)
+      }
+      return `Group ${index}: "${group.name}" (${group.color})\n${members.join("\n")}`
+    })
+    .join("\n")
+  return `Existing groups:\n\n${groupList}\n\nPlace these ungrouped tabs:\n\n${tabList}`
 }
 
-const VALID_COLORS = ["grey", "blue", "red", "yellow", "green", "pink", "purple", "cyan", "orange"] as const
+export const VALID_COLORS = ["grey", "blue", "red", "yellow", "green", "pink", "purple", "cyan", "orange"] as const
 
 /**
  * Intelligently assigns colors based on group name and category keywords
+ *
+ * @param groupName - Group name to match against category keywords
+ * @param suggestedColor - Color proposed by the AI; used when valid
+ * @returns Tab group color, grey when nothing matches
  */
-function assignSmartColor(groupName: string, suggestedColor?: string): chrome.tabGroups.ColorEnum {
+export function assignSmartColor(groupName: string, suggestedColor?: string): chrome.tabGroups.ColorEnum {
   const name = groupName.toLowerCase()
   
   // If AI suggested a valid color, use it
@@ -183,7 +262,11 @@ function assignSmartColor(groupName: string, suggestedColor?: string): chrome.ta
   return "grey"
 }
 
-function parseResponse(text: string, mapping: TabMapping): TabGroup[] {
+function parseResponse(
+  text: string,
+  mapping: TabMapping,
+  existingGroups: ExistingGroup[] = []
+): TabGroup[] {
   if (!text || typeof text !== "string") {
     throw new Error("Invalid response: empty or non-string content")
   }
@@ -193,6 +276,13 @@ function parseResponse(text: string, mapping: TabMapping): TabGroup[] {
   const codeBlockMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/)
   if (codeBlockMatch) {
     jsonStr = codeBlockMatch[1].trim()
+  } else {
+    // Drop any prose the model wrapped around the object
+    const start = text.indexOf("{")
+    const end = text.lastIndexOf("}")
+    if (start !== -1 && end > start) {
+      jsonStr = text.slice(start, end + 1)
+    }
   }
 
   let parsed: AIResponse
@@ -219,20 +309,105 @@ function parseResponse(text: string, mapping: TabMapping): TabGroup[] {
       throw new Error(`Invalid group at index ${idx}`)
     }
     
+    // Map indices back to actual tab IDs, skip any unknown indices
+    const tabIds = (group.tabIds || [])
+      .filter((id): id is number => typeof id === "number")
+      .map((index) => mapping.indexToId.get(index))
+      .filter((id): id is number => id !== undefined)
+
+    const existing = typeof group.existingGroup === "number"
+      ? existingGroups[group.existingGroup]
+      : undefined
+    if (existing) {
+      return {
+        name: existing.name,
+        color: existing.color,
+        tabIds,
+        groupId: existing.groupId
+      }
+    }
+
     const groupName = group.name || "Unnamed"
     
     return {
       name: groupName,
       color: assignSmartColor(groupName, group.color),
-      // Map indices back to actual tab IDs, skip any unknown indices
-      tabIds: (group.tabIds || [])
-        .filter((id): id is number => typeof id === "number")
-        .map((index) => mapping.indexToId.get(index))
-        .filter((id): id is number => id !== undefined)
+      tabIds
     }
   })
 }
 
+interface JsonSchema {
+  name: string
+  schema: Record<string, unknown>
+}
+
+/**
+ * JSON schema for `AIResponse`, sent to providers that support structured output.
+ * Strict mode requires every property, so `existingGroup` is nullable instead of optional.
+ */
+const AI_RESPONSE_SCHEMA: JsonSchema = {
+  name: "tab_groups",
+  schema: {
+    type: "object",
+    properties: {
+      groups: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            color: { type: "string", enum: [...VALID_COLORS] },
+            tabIds: { type: "array", items: { type: "integer" } },
+            existingGroup: { type: ["integer", "null"] }
+          },
+          required: ["name", "color", "tabIds", "existingGroup"],
+          additionalProperties: false
+        }
+      }
+    },
+    required: ["groups"],
+    additionalProperties: false
+  }
+}
+
+function structuredOutputKey(settings: Settings): string {
+  return `${settings.apiEndpoint}|${settings.model}`
+}
+
+async function getUnsupportedKeys(): Promise<string[]> {
+  const result = await chrome.storage.local.get(STRUCTURED_UNSUPPORTED_KEY)
+  const keys = result[STRUCTURED_UNSUPPORTED_KEY]
+  return Array.isArray(keys) ? keys : []
+}
+
+async function isStructuredOutputUnsupported(settings: Settings): Promise<boolean> {
+  try {
+    const keys = await getUnsupportedKeys()
+    return keys.includes(structuredOutputKey(settings))
+  } catch {
+    return false
+  }
+}
+
+async function markStructuredOutputUnsupported(settings: Settings): Promise<void> {
+  try {
+    const keys = await getUnsupportedKeys()
+    const key = structuredOutputKey(settings)
+    if (!keys.includes(key)) {
+      await chrome.storage.local.set({ [STRUCTURED_UNSUPPORTED_KEY]: [...keys, key] })
+    }
+  } catch {
+    // Not remembered - the next run will probe again
+  }
+}
+
+// Ollama's native API takes the schema as `format`
+function isOllamaEndpoint(endpoint: string): boolean {
+  const lower = endpoint.toLowerCase()
+  return lower.includes(":11434") || lower.includes("ollama")
+}
+
 /**
  * Creates a fetch request with timeout support
  */
@@ -258,68 +433,246 @@ function fetchWithTimeout(
   })
 }
 
+interface CompletionRequest {
+  system: string
+  user: string
+  // Ask for output matching this schema where the provider supports it
+  schema?: JsonSchema
+}
+
+// Fields read from OpenAI-compatible responses, stream chunks and embeddings; providers vary, so all optional
+interface OpenAIPayload {
+  choices?: { message?: { content?: string | null }; delta?: { content?: string | null } }[]
+  usage?: {
+    prompt_tokens?: number
+    completion_tokens?: number
+    completion_tokens_details?: { reasoning_tokens?: number }
+  }
+  data?: { index?: number; embedding: number[] }[]
+}
+
+// Fields read from Anthropic responses and stream events
+interface AnthropicPayload {
+  type?: string
+  content?: { type?: string; text?: unknown }[]
+  delta?: { type?: string; text?: string }
+  usage?: AnthropicUsage
+  message?: { usage?: AnthropicUsage }
+}
+
+interface AnthropicUsage {
+  input_tokens?: number
+  output_tokens?: number
+}
+
+// Either provider may send an error event mid-stream
+interface StreamErrorPayload {
+  error?: { message?: string }
+}
+
 /**
- * Organizes browser tabs using an AI model via OpenAI-compatible API.
- * 
- * This function sends tab information to an AI API and receives grouping suggestions.
- * It includes retry logic with exponential backoff for handling transient failures.
- * 
- * @param tabs - Array of tab information to organize
- * @param settings - User configuration including API endpoint, key, and model
- * @param options - Optional configuration:
- *   - signal: AbortSignal for cancellation support
- *   - onDebug: Callback for debug logging
- * 
- * @returns Promise resolving to array of suggested tab groups
- * 
- * @throws Error if:
- *   - No tabs provided
- *   - API authentication fails (401, 403)
- *   - API returns invalid or empty response
- *   - Request is cancelled
- *   - All retry attempts are exhausted
- * 
- * @example
- * ```typescript
- * const tabs = await getAllTabs()
- * const settings = await getSettings()
- * const groups = await organizeTabsWithAI(tabs, settings, {
- *   onDebug: (msg) => console.log(msg)
- * })
- * ```
+ * Translates a chat request into one provider's HTTP API shape
  */
-export async function organizeTabsWithAI(
-  tabs: TabInfo[],
-  settings: Settings,
-  options?: { signal?: AbortSignal; onDebug?: (msg: string) => void }
-): Promise<TabGroup[]> {
-  const { signal, onDebug } = options ?? {}
-  const { apiEndpoint, apiKey, model, reasoningEffort } = settings
-  const mapping = createTabMapping(tabs)
+interface ProviderAdapter {
+  path: string
+  headers(apiKey: string): Record<string, string>
+  buildBody(request: CompletionRequest, settings: Settings): Record<string, unknown>
+  // Body fields requesting schema-constrained output; omitted if unsupported
+  structuredOutput?(schema: JsonSchema, settings: Settings): Record<string, unknown>
+  // Body fields requesting a server-sent events response
+  streamFields: Record<string, unknown>
+  extractContent(data: unknown): string | undefined
+  // Text added by one streamed event, if any
+  extractDelta(event: unknown): string | undefined
+  // Token counts in a response or streamed event; later events override earlier ones
+  extractUsage(data: unknown): Partial<TokenUsage> | undefined
+}
 
-  if (tabs.length === 0) {
-    throw new Error("No tabs to organize")
+// OpenAI /chat/completions - also used by OpenRouter, Ollama, LM Studio, etc.
+const openAIAdapter: ProviderAdapter = {
+  path: "/chat/completions",
+  headers: (apiKey) => ({
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${apiKey}`
+  }),
+  buildBody: ({ system, user }, { model, reasoningEffort }) => {
+    const body: Record<string, unknown> = {
+      model,
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: user }
+      ],
+      temperature: 0.3
+    }
+    // Add reasoning_effort for thinking models (ignored by non-thinking models)
+    if (reasoningEffort && reasoningEffort !== "off") {
+      body.reasoning_effort = reasoningEffort
+    }
+    return body
+  },
+  structuredOutput: (schema, { apiEndpoint }) => {
+    const fields: Record<string, unknown> = {
+      response_format: {
+        type: "json_schema",
+        json_schema: { name: schema.name, strict: true, schema: schema.schema }
+      }
+    }
+    if (isOllamaEndpoint(apiEndpoint)) {
+      fields.format = schema.schema
+    }
+    return fields
+  },
+  // include_usage adds a final chunk carrying the token counts
+  streamFields: { stream: true, stream_options: { include_usage: true } },
+  extractContent: (data) => (data as OpenAIPayload | null)?.choices?.[0]?.message?.content ?? undefined,
+  extractDelta: (event) => (event as OpenAIPayload | null)?.choices?.[0]?.delta?.content ?? undefined,
+  extractUsage: (data) => {
+    const usage = (data as OpenAIPayload | null)?.usage
+    if (!usage) return undefined
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+      reasoningTokens: usage.completion_tokens_details?.reasoning_tokens
+    }
   }
+}
 
-  const requestBody: Record<string, unknown> = {
-    model,
-    messages: [
-      { role: "system", content: SYSTEM_PROMPT },
-      { role: "user", content: buildUserPrompt(tabs) }
-    ],
-    temperature: 0.3
+// Anthropic /v1/messages - system prompt is top-level, thinking replaces reasoning_effort
+const anthropicAdapter: ProviderAdapter = {
+  path: "/messages",
+  headers: (apiKey) => ({
+    "Content-Type": "application/json",
+    "x-api-key": apiKey,
+    "anthropic-version": ANTHROPIC_VERSION,
+    // Required for requests made from a browser context
+    "anthropic-dangerous-direct-browser-access": "true"
+  }),
+  buildBody: ({ system, user }, { model, reasoningEffort }) => {
+    const body: Record<string, unknown> = {
+      model,
+      system,
+      messages: [{ role: "user", content: user }],
+      max_tokens: ANTHROPIC_MAX_TOKENS
+    }
+    if (reasoningEffort && reasoningEffort !== "off") {
+      const budget = ANTHROPIC_THINKING_BUDGETS[reasoningEffort]
+      body.thinking = { type: "enabled", budget_tokens: budget }
+      // max_tokens must exceed the thinking budget; temperature must stay at its default
+      body.max_tokens = ANTHROPIC_MAX_TOKENS + budget
+    } else {
+      body.temperature = 0.3
+    }
+    return body
+  },
+  extractContent: (data) => {
+    const content = (data as AnthropicPayload | null)?.content
+    if (!Array.isArray(content)) return undefined
+    // Skip thinking blocks and join the text blocks
+    const text = content
+      .map((block) => (block?.type === "text" && typeof block.text === "string" ? block.text : ""))
+      .join("")
+    return text || undefined
+  },
+  streamFields: { stream: true },
+  // Thinking deltas arrive as "thinking_delta" and are skipped
+  extractDelta: (event) => {
+    const payload = event as AnthropicPayload | null
+    return payload?.type === "content_block_delta" && payload.delta?.type === "text_delta"
+      ? payload.delta.text
+      : undefined
+  },
+  // Streams report input tokens in message_start and running output tokens in message_delta;
+  // thinking tokens are billed as output and not reported separately
+  extractUsage: (data) => {
+    const payload = data as AnthropicPayload | null
+    const usage = payload?.usage ?? payload?.message?.usage
+    if (!usage) return undefined
+    return { promptTokens: usage.input_tokens, completionTokens: usage.output_tokens }
   }
+}
 
-  // Add reasoning_effort for thinking models (ignored by non-thinking models)
-  if (reasoningEffort && reasoningEffort !== "off") {
-    requestBody.reasoning_effort = reasoningEffort
+const PROVIDERS: Record<ApiProvider, ProviderAdapter> = {
+  openai: openAIAdapter,
+  anthropic: anthropicAdapter
+}
+
+/**
+ * Overlays the fields a response reported onto earlier counts
+ */
+function mergeUsage(usage: TokenUsage, reported?: Partial<TokenUsage>): TokenUsage {
+  if (!reported) return usage
+  return {
+    promptTokens: reported.promptTokens ?? usage.promptTokens,
+    completionTokens: reported.completionTokens ?? usage.completionTokens,
+    reasoningTokens: reported.reasoningTokens ?? usage.reasoningTokens
   }
+}
 
-  onDebug?.(`Request to ${apiEndpoint}/chat/completions`)
-  onDebug?.(`Model: ${model}`)
-  onDebug?.(`Tabs: ${tabs.length}`)
-  if (reasoningEffort && reasoningEffort !== "off") {
-    onDebug?.(`Reasoning: ${reasoningEffort}`)
+const NO_USAGE: TokenUsage = { promptTokens: 0, completionTokens: 0, reasoningTokens: 0 }
+
+/**
+ * Collects the text of a streamed reply, reporting it as it grows
+ */
+async function readStreamedContent(
+  response: Response,
+  adapter: ProviderAdapter,
+  onStream: (text: string, chunks: number) => void
+): Promise<{ content: string; usage: TokenUsage }> {
+  let text = ""
+  let chunks = 0
+  let usage = NO_USAGE
+  let streamError: string | undefined
+
+  await readEventStream(response, (event) => {
+    const error = (event as StreamErrorPayload | null)?.error
+    if (error) {
+      streamError = error.message ?? "Stream error"
+      return
+    }
+    usage = mergeUsage(usage, adapter.extractUsage(event))
+    const delta = adapter.extractDelta(event)
+    if (!delta) return
+    text += delta
+    chunks++
+    onStream(text, chunks)
+  }, REQUEST_TIMEOUT_MS)
+
+  if (streamError) {
+    throw new Error(`API error: ${streamError}`)
+  }
+  return { content: text, usage }
+}
+
+/**
+ * Sends a single chat request to the configured provider and returns the
+ * model's text reply, retrying transient failures with exponential backoff.
+ */
+async function requestCompletion(
+  request: CompletionRequest,
+  settings: Settings,
+  options?: {
+    signal?: AbortSignal
+    onDebug?: (msg: string) => void
+    // Streams the reply when set, called with the text received so far
+    onStream?: (text: string, chunks: number) => void
+    // Called once with the tokens the successful request used
+    onUsage?: (usage: TokenUsage, model: string) => void
+  }
+): Promise<string> {
+  const { signal, onDebug, onStream, onUsage } = options ?? {}
+  const adapter = PROVIDERS[settings.provider] ?? openAIAdapter
+  const url = `${settings.apiEndpoint}${adapter.path}`
+  const body = adapter.buildBody(request, settings)
+  const baseBody = onStream ? { ...body, ...adapter.streamFields } : body
+  const structuredFields = request.schema && adapter.structuredOutput
+    && !(await isStructuredOutputUnsupported(settings))
+    ? adapter.structuredOutput(request.schema, settings)
+    : undefined
+  let requestBody = structuredFields ? { ...baseBody, ...structuredFields } : baseBody
+
+  onDebug?.(`Request to ${url}`)
+  if (structuredFields) {
+    onDebug?.("Structured output: JSON schema")
   }
 
   // Retry logic with exponential backoff
@@ -337,13 +690,10 @@ export async function organizeTabsWithAI(
 
     try {
       const response = await fetchWithTimeout(
-        `${apiEndpoint}/chat/completions`,
+        url,
         {
           method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${apiKey}`
-          },
+          headers: adapter.headers(settings.apiKey),
           body: JSON.stringify(requestBody),
           signal
         },
@@ -353,6 +703,20 @@ export async function organizeTabsWithAI(
       if (!response.ok) {
         const errorText = await response.text()
         onDebug?.(`Error: ${response.status} - ${errorText}`)
+
+        // Request with a schema rejected - resend as free text. Only a rejection naming the
+        // schema fields is remembered; a bad model name or too long a prompt says nothing about it
+        if (requestBody !== baseBody && (response.status === 400 || response.status === 422)) {
+          if (SCHEMA_ERROR_PATTERN.test(errorText)) {
+            onDebug?.("Structured output not supported, falling back to free-text JSON")
+            await markStructuredOutputUnsupported(settings)
+          } else {
+            onDebug?.("Request rejected, retrying once without structured output")
+          }
+          requestBody = baseBody
+          attempt--
+          continue
+        }
         
         // Check if error is retryable
         if (attempt < MAX_RETRIES && isRetryableError(response.status)) {
@@ -360,27 +724,28 @@ export async function organizeTabsWithAI(
           continue // Retry
         }
         
-        // Don't expose full error details to UI - may contain sensitive info
-        const statusMessages: Record<number, string> = {
-          401: "Invalid API key",
-          403: "Access denied - check API key permissions",
-          429: "Rate limited - please wait and try again",
-          500: "API server error - try again later",
-          503: "API service unavailable - try again later"
-        }
-        throw new Error(statusMessages[response.status] || `API error: ${response.status}`)
+        throw new Error(STATUS_MESSAGES[response.status] || `API error: ${response.status}`)
       }
 
-      const data = await response.json()
-      const content = data.choices?.[0]?.message?.content
+      const streamed = onStream && response.headers.get("content-type")?.includes("text/event-stream")
+      let content: string | undefined
+      let usage: TokenUsage
+      if (streamed) {
+        ({ content, usage } = await readStreamedContent(response, adapter, onStream))
+      } else {
+        const data = await response.json()
+        content = adapter.extractContent(data)
+        usage = mergeUsage(NO_USAGE, adapter.extractUsage(data))
+      }
+      onDebug?.(`Tokens: ${usage.promptTokens} in, ${usage.completionTokens} out`)
+      onUsage?.(usage, settings.model)
 
       if (!content) {
         throw new Error("No content in API response")
       }
 
       onDebug?.(`Response: ${content}`)
-
-      return parseResponse(content, mapping)
+      return content
     } catch (error) {
       // Handle timeout and network errors
       if (error instanceof Error) {
@@ -401,3 +766,427 @@ export async function organizeTabsWithAI(
   // All retries exhausted
   throw lastError || new Error("Request failed after multiple retries")
 }
+
+/**
+ * Organizes browser tabs using an AI model via the configured provider
+ * (OpenAI-compatible or native Anthropic API).
+ * 
+ * This function sends tab information to an AI API and receives grouping suggestions.
+ * It includes retry logic with exponential backoff for handling transient failures.
+ * Tab sets larger than `settings.batchSize` are sent in several requests and the
+ * per-batch groups are reconciled into one set, merging near-identical names.
+ * 
+ * @param tabs - Array of tab information to organize
+ * @param settings - User configuration including API endpoint, key, and model
+ * @param options - Optional configuration:
+ *   - signal: AbortSignal for cancellation support
+ *   - onDebug: Callback for debug logging
+ *   - existingGroups: Groups to keep (incremental mode); the AI may add tabs
+ *     to them, in which case the returned group carries their `groupId`
+ *   - onBatchProgress: Called as batches finish when the tabs are split into
+ *     more than one request (see `settings.batchSize`)
+ *   - onStreamProgress: Called as the streamed reply arrives with groups
+ *     completed, tabs assigned and tokens received so far (all batches)
+ *   - promptTemplate: System prompt template with `{{variables}}`
+ *     (defaults to the built-in template)
+ *   - onUsage: Called with the tokens each successful request used
+ *   - previousGroups: Groups from before this run, offered as preferred
+ *     names and colors
+ * 
+ * @returns Promise resolving to array of suggested tab groups
+ * 
+ * @throws Error if:
+ *   - No tabs provided
+ *   - API authentication fails (401, 403)
+ *   - API returns invalid or empty response
+ *   - Request is cancelled
+ *   - All retry attempts are exhausted
+ * 
+ * @example
+ * ```typescript
+ * const tabs = await getAllTabs()
+ * const settings = await getSettings()
+ * const groups = await organizeTabsWithAI(tabs, settings, {
+ *   onDebug: (msg) => console.log(msg)
+ * })
+ * ```
+ */
+export async function organizeTabsWithAI(
+  tabs: TabInfo[],
+  settings: Settings,
+  options?: {
+    signal?: AbortSignal
+    onDebug?: (msg: string) => void
+    existingGroups?: ExistingGroup[]
+    onBatchProgress?: (completed: number, total: number) => void
+    onStreamProgress?: (progress: StreamProgress) => void
+    promptTemplate?: string
+    onUsage?: (usage: TokenUsage, model: string) => void
+    previousGroups?: ExistingGroup[]
+  }
+): Promise<TabGroup[]> {
+  const { signal, onDebug, existingGroups, onBatchProgress, onStreamProgress, onUsage, previousGroups } = options ?? {}
+  const promptTemplate = options?.promptTemplate ?? DEFAULT_PROMPT_TEMPLATE
+  const incremental = !!existingGroups && existingGroups.length > 0
+  const { model, provider, reasoningEffort } = settings
+
+  if (tabs.length === 0) {
+    throw new Error("No tabs to organize")
+  }
+
+  onDebug?.(`Provider: ${provider}`)
+  onDebug?.(`Model: ${model}`)
+  onDebug?.(`Tabs: ${tabs.length}`)
+  if (incremental) {
+    onDebug?.(`Existing groups: ${existingGroups!.length}`)
+  }
+  if (reasoningEffort && reasoningEffort !== "off") {
+    onDebug?.(`Reasoning: ${reasoningEffort}`)
+  }
+
+  const batches = splitIntoBatches(tabs, settings.batchSize)
+
+  // Sum streaming progress over batches running at the same time
+  const batchProgress: StreamProgress[] = batches.map(() => ({ groups: 0, tabs: 0, tokens: 0 }))
+  const reportProgress = (index: number) => (progress: StreamProgress) => {
+    batchProgress[index] = progress
+    onStreamProgress?.(batchProgress.reduce((sum, p) => ({
+      groups: sum.groups + p.groups,
+      tabs: sum.tabs + p.tabs,
+      tokens: sum.tokens + p.tokens
+    })))
+  }
+
+  if (batches.length === 1) {
+    return organizeBatch(tabs, settings, {
+      signal,
+      onDebug,
+      existingGroups,
+      previousGroups,
+      promptTemplate,
+      onUsage,
+      onProgress: reportProgress(0)
+    })
+  }
+
+  onDebug?.(`Splitting into ${batches.length} batches (up to ${settings.batchConcurrency} at a time)`)
+  onBatchProgress?.(0, batches.length)
+
+  let completed = 0
+  const results = await runWithConcurrency(batches, settings.batchConcurrency, async (batch, index, batchSignal) => {
+    const log = onDebug && ((msg: string) => onDebug(`[batch ${index + 1}/${batches.length}] ${msg}`))
+    const groups = await organizeBatch(batch, settings, {
+      signal: batchSignal,
+      onDebug: log,
+      existingGroups,
+      previousGroups,
+      promptTemplate,
+      onUsage,
+      onProgress: reportProgress(index)
+    })
+    completed++
+    onBatchProgress?.(completed, batches.length)
+    return groups
+  }, signal)
+
+  const groups = reconcileGroups(results.flat())
+  onDebug?.(`Reconciled ${results.flat().length} batch groups into ${groups.length}`)
+  return groups
+}
+
+/**
+ * Sends one batch of tabs to the AI and maps its answer back to tab ids
+ */
+async function organizeBatch(
+  tabs: TabInfo[],
+  settings: Settings,
+  options: {
+    signal?: AbortSignal
+    onDebug?: (msg: string) => void
+    existingGroups?: ExistingGroup[]
+    previousGroups?: ExistingGroup[]
+    promptTemplate: string
+    onUsage?: (usage: TokenUsage, model: string) => void
+    onProgress: (progress: StreamProgress) => void
+  }
+): Promise<TabGroup[]> {
+  const { signal, onDebug, existingGroups, previousGroups, promptTemplate, onUsage, onProgress } = options
+  const mapping = createTabMapping(tabs)
+  const trackGroups = createGroupTracker()
+
+  const request: CompletionRequest = {
+    system: buildSystemPrompt(promptTemplate, settings, existingGroups, previousGroups),
+    user: buildUserPrompt(tabs, existingGroups),
+    schema: AI_RESPONSE_SCHEMA
+  }
+
+  const content = await requestCompletion(request, settings, {
+    signal,
+    onDebug,
+    onUsage,
+    onStream: (text, chunks) => onProgress({ ...trackGroups(text), tokens: chunks })
+  })
+  return parseResponse(content, mapping, existingGroups)
+}
+
+// Inputs per /embeddings request
+const EMBEDDING_BATCH_SIZE = 100
+
+/**
+ * Fetches embedding vectors from the provider's OpenAI-compatible
+ * `/embeddings` endpoint, retrying transient failures like chat requests.
+ *
+ * @param texts - Inputs to embed
+ * @param settings - User configuration; `embeddingModel` selects the model
+ * @param options - Optional signal for cancellation, debug and token usage callbacks
+ * @returns Promise resolving to one vector per input, in input order
+ *
+ * @throws Error if the provider is not OpenAI-compatible or the response is malformed
+ */
+export async function requestEmbeddings(
+  texts: string[],
+  settings: Settings,
+  options?: {
+    signal?: AbortSignal
+    onDebug?: (msg: string) => void
+    onUsage?: (usage: TokenUsage, model: string) => void
+  }
+): Promise<number[][]> {
+  const { signal, onDebug, onUsage } = options ?? {}
+  if (settings.provider !== "openai") {
+    throw new Error("Embeddings need an OpenAI-compatible endpoint")
+  }
+
+  const url = `${settings.apiEndpoint}/embeddings`
+  const vectors: number[][] = []
+
+  for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+    const input = texts.slice(start, start + EMBEDDING_BATCH_SIZE)
+    onDebug?.(`Embedding ${start + 1}-${start + input.length} of ${texts.length}`)
+
+    let lastError: Error | null = null
+    let batch: number[][] | null = null
+    for (let attempt = 0; attempt <= MAX_RETRIES && !batch; attempt++) {
+      if (signal?.aborted) {
+        throw new Error("Request cancelled")
+      }
+      if (attempt > 0) {
+        await delay(RETRY_DELAY_MS * Math.pow(2, attempt - 1))
+      }
+
+      let response: Response
+      try {
+        response = await fetchWithTimeout(
+          url,
+          {
+            method: "POST",
+            headers: openAIAdapter.headers(settings.apiKey),
+            body: JSON.stringify({ model: settings.embeddingModel, input }),
+            signal
+          },
+          REQUEST_TIMEOUT_MS
+        )
+      } catch (error) {
+        // Retry network errors and timeouts, not cancellation
+        if (error instanceof Error && error.name !== "AbortError" && attempt < MAX_RETRIES) {
+          onDebug?.(`Network error: ${error.message}`)
+          lastError = error
+          continue
+        }
+        throw error
+      }
+
+      if (!response.ok) {
+        onDebug?.(`Error: ${response.status} - ${await response.text()}`)
+        lastError = new Error(STATUS_MESSAGES[response.status] || `API error: ${response.status}`)
+        if (attempt < MAX_RETRIES && isRetryableError(response.status)) continue
+        throw lastError
+      }
+
+      const data = (await response.json()) as OpenAIPayload | null
+      if (!Array.isArray(data?.data) || data.data.length !== input.length) {
+        throw new Error("Invalid embeddings response")
+      }
+      onUsage?.(mergeUsage(NO_USAGE, openAIAdapter.extractUsage(data)), settings.embeddingModel)
+      // Entries carry their input index; don't rely on response order
+      batch = [...data.data]
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .map((entry) => entry.embedding)
+    }
+
+    if (!batch) {
+      throw lastError || new Error("Request failed after multiple retries")
+    }
+    vectors.push(...batch)
+  }
+
+  return vectors
+}
+
+const CLUSTER_NAMING_PROMPT = `You name browser tab groups. Each numbered cluster lists sample tab titles and sites.
+Give each cluster a short, specific name (2-4 words, one leading emoji) and a color.
+
+Colors: grey, blue, red, yellow, green, pink, purple, cyan, orange
+
+Respond with JSON only:
+{"clusters":[{"cluster":0,"name":"🔧 Name","color":"blue"}]}`
+
+const CLUSTER_NAMES_SCHEMA: JsonSchema = {
+  name: "cluster_names",
+  schema: {
+    type: "object",
+    properties: {
+      clusters: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            cluster: { type: "integer" },
+            name: { type: "string" },
+            color: { type: "string", enum: [...VALID_COLORS] }
+          },
+          required: ["cluster", "name", "color"],
+          additionalProperties: false
+        }
+      }
+    },
+    required: ["clusters"],
+    additionalProperties: false
+  }
+}
+
+// Sample titles sent per cluster when naming
+const MAX_NAMING_SAMPLES = 6
+
+/**
+ * Names pre-built tab clusters with one small chat request.
+ *
+ * @param clusters - Tabs per cluster
+ * @param settings - User configuration including API endpoint, key, and model
+ * @param options - Optional signal for cancellation, debug and token usage callbacks
+ * @returns Promise resolving to a name and color per cluster, in cluster order;
+ *   clusters the model skipped are named "Group N"
+ */
+export async function nameClustersWithAI(
+  clusters: TabInfo[][],
+  settings: Settings,
+  options?: {
+    signal?: AbortSignal
+    onDebug?: (msg: string) => void
+    onUsage?: (usage: TokenUsage, model: string) => void
+  }
+): Promise<{ name: string; color: chrome.tabGroups.ColorEnum }[]> {
+  const user = clusters
+    .map((tabs, index) => {
+      const samples = tabs
+        .slice(0, MAX_NAMING_SAMPLES)
+        .map((tab) => `  - ${tab.title} (${sanitizeUrl(tab.url)})`)
+        .join("\n")
+      return `Cluster ${index} (${tabs.length} tabs):\n${samples}`
+    })
+    .join("\n\n")
+
+  const content = await requestCompletion(
+    { system: CLUSTER_NAMING_PROMPT, user, schema: CLUSTER_NAMES_SCHEMA },
+    settings,
+    options
+  )
+
+  let parsed: { clusters?: { cluster?: number; name?: string; color?: string }[] }
+  try {
+    const match = content.match(/\{[\s\S]*\}/)
+    parsed = JSON.parse(match ? match[0] : content)
+  } catch (error) {
+    throw new Error(`AI returned invalid JSON: ${error instanceof Error ? error.message : 'parse error'}`)
+  }
+
+  return clusters.map((_, index) => {
+    const named = parsed.clusters?.find((entry) => entry?.cluster === index)
+    const name = named?.name?.trim() || `Group ${index + 1}`
+    return { name, color: assignSmartColor(name, named?.color) }
+  })
+}
+
+const TAB_PLACEMENT_PROMPT = `You sort one new browser tab into the user's tab groups. The groups are numbered and list a few of their tabs.
+Pick the group the tab clearly belongs to. If none fits, use -1 and give a short, specific new group name (2-4 words, one leading emoji) and a color.
+
+Colors: grey, blue, red, yellow, green, pink, purple, cyan, orange
+
+Respond with JSON only:
+{"group":2,"name":"","color":"grey"} or {"group":-1,"name":"🔧 Name","color":"blue"}`
+
+const TAB_PLACEMENT_SCHEMA: JsonSchema = {
+  name: "tab_placement",
+  schema: {
+    type: "object",
+    properties: {
+      group: { type: "integer" },
+      name: { type: "string" },
+      color: { type: "string", enum: [...VALID_COLORS] }
+    },
+    required: ["group", "name", "color"],
+    additionalProperties: false
+  }
+}
+
+// Member tabs listed per group when placing a single tab
+const MAX_PLACEMENT_MEMBERS = 4
+
+/**
+ * Picks a group for one tab with a single small chat request, instead of
+ * reorganizing the whole window.
+ *
+ * @param tab - Tab to place
+ * @param groups - Groups in the tab's window
+ * @param settings - User configuration including API endpoint, key, and model
+ * @param options - Optional signal for cancellation, debug and token usage callbacks
+ * @returns Promise resolving to a group holding just this tab; it carries the
+ *   `groupId` of an existing group when the tab should join it
+ *
+ * @example
+ * ```typescript
+ * const group = await placeTabWithAI(tab, await getExistingGroups(windowTabs), settings)
+ * await createTabGroups([group])
+ * ```
+ */
+export async function placeTabWithAI(
+  tab: TabInfo,
+  groups: ExistingGroup[],
+  settings: Settings,
+  options?: {
+    signal?: AbortSignal
+    onDebug?: (msg: string) => void
+    onUsage?: (usage: TokenUsage, model: string) => void
+  }
+): Promise<TabGroup> {
+  const groupList = groups
+    .map((group, index) => {
+      const members = group.tabs
+        .slice(0, MAX_PLACEMENT_MEMBERS)
+        .map((t) => `  - "${t.title || "Untitled"}" | ${sanitizeUrl(t.url)}`)
+      return `Group ${index}: "${group.name}"\n${members.join("\n")}`
+    })
+    .join("\n")
+  const user = `${groups.length > 0 ? `Groups:\n\n${groupList}` : "There are no groups yet."}\n\nNew tab: "${tab.title || "Untitled"}" | ${sanitizeUrl(tab.url)}`
+
+  const content = await requestCompletion(
+    { system: TAB_PLACEMENT_PROMPT, user, schema: TAB_PLACEMENT_SCHEMA },
+    settings,
+    options
+  )
+
+  let parsed: { group?: number; name?: string; color?: string }
+  try {
+    const match = content.match(/\{[\s\S]*\}/)
+    parsed = JSON.parse(match ? match[0] : content)
+  } catch (error) {
+    throw new Error(`AI returned invalid JSON: ${error instanceof Error ? error.message : 'parse error'}`)
+  }
+
+  const existing = typeof parsed.group === "number" ? groups[parsed.group] : undefined
+  if (existing) {
+    return { name: existing.name, color: existing.color, tabIds: [tab.id], groupId: existing.groupId }
+  }
+  const name = parsed.name?.trim() || "📂 Misc"
+  return { name, color: assignSmartColor(name, parsed.color), tabIds: [tab.id] }
+}
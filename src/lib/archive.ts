@@ -0,0 +1,198 @@
+import type { Settings, StaleGroup, TabArchive, TabGroup } from "./types"
+import { createTabGroups, getScopeWindowIds } from "./tabs"
+import { isExcludedSite } from "./rules"
+
+// Archive records live in local storage next to saved sessions; the tabs
+// themselves are kept as bookmarks
+const STORAGE_KEY = "tab_archives"
+
+// Bookmark folder holding one dated subfolder per archived group
+const ROOT_FOLDER_TITLE = "Tab Organizer Archive"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Finds tabs in the windows in scope that nobody has visited for
+ * `settings.staleTabDays`, collected by the group they sit in.
+ *
+ * Active, pinned, audio-playing and incognito tabs are never stale, nor are
+ * tabs on excluded sites or tabs the browser reports no visit time for.
+ *
+ * @param settings - Settings with the window scope, stale period and excluded sites
+ * @returns Promise resolving to the stale tabs per group, whole groups first,
+ *   or an empty array when stale detection is off
+ */
+export async function findStaleTabs(settings: Settings): Promise<StaleGroup[]> {
+  if (settings.staleTabDays <= 0) return []
+  const cutoff = Date.now() - settings.staleTabDays * DAY_MS
+
+  const staleGroups: StaleGroup[] = []
+  for (const windowId of await getScopeWindowIds(settings.windowScope)) {
+    const tabs = await chrome.tabs.query({ windowId })
+    const groups = await chrome.tabGroups.query({ windowId })
+
+    const byGroup = new Map<number, chrome.tabs.Tab[]>()
+    for (const tab of tabs) {
+      byGroup.set(tab.groupId, [...(byGroup.get(tab.groupId) ?? []), tab])
+    }
+
+    for (const [groupId, members] of byGroup) {
+      const stale = members.filter((tab) =>
+        tab.id !== undefined &&
+        tab.url &&
+        !tab.active &&
+        !tab.pinned &&
+        !tab.audible &&
+        !tab.incognito &&
+        tab.lastAccessed !== undefined &&
+        tab.lastAccessed < cutoff &&
+        !isExcludedSite({ id: tab.id, title: tab.title ?? "", url: tab.url }, settings.excludedSites)
+      )
+      if (stale.length === 0) continue
+
+      const group = groups.find((g) => g.id === groupId)
+      staleGroups.push({
+        name: group ? group.title || "Untitled group" : "Ungrouped",
+        color: group?.color ?? "grey",
+        tabIds: stale.map((tab) => tab.id!),
+        wholeGroup: group !== undefined && stale.length === members.length,
+        lastAccessed: Math.max(...stale.map((tab) => tab.lastAccessed!))
+      })
+    }
+  }
+
+  return staleGroups.sort((a, b) => Number(b.wholeGroup) - Number(a.wholeGroup) || a.lastAccessed - b.lastAccessed)
+}
+
+/**
+ * Retrieves all archives, newest first.
+ *
+ * @returns Promise resolving to the recorded archives
+ */
+export async function listArchives(): Promise<TabArchive[]> {
+  const result = await chrome.storage.local.get(STORAGE_KEY)
+  const archives = result[STORAGE_KEY]
+  return Array.isArray(archives)
+    ? [...archives].sort((a, b) => b.archivedAt - a.archivedAt)
+    : []
+}
+
+async function writeArchives(archives: TabArchive[]): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEY]: archives })
+}
+
+async function getRootFolderId(): Promise<string> {
+  const matches = await chrome.bookmarks.search({ title: ROOT_FOLDER_TITLE })
+  const folder = matches.find((node) => !node.url)
+  if (folder) return folder.id
+  // Without a parent the folder lands in "Other bookmarks"
+  return (await chrome.bookmarks.create({ title: ROOT_FOLDER_TITLE })).id
+}
+
+// 2026-03-14, in local time so the folder matches the user's calendar
+function formatDate(time: number): string {
+  const date = new Date(time)
+  const pad = (n: number) => String(n).padStart(2, "0")
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+/**
+ * Bookmarks the given tabs and closes them.
+ *
+ * Each group gets a dated folder under "Tab Organizer Archive" with one
+ * bookmark per tab, in tab strip order. The archive is recorded so the
+ * groups can be reopened with `restoreArchive`. Tabs closed in the
+ * meantime are skipped.
+ *
+ * @param groups - Stale tabs per group, as found by `findStaleTabs`
+ * @returns Promise resolving to the recorded archive
+ *
+ * @example
+ * ```typescript
+ * const archive = await archiveTabs(await findStaleTabs(settings))
+ * console.log(`Archived ${archive.groups.length} groups`)
+ * ```
+ */
+export async function archiveTabs(groups: StaleGroup[]): Promise<TabArchive> {
+  const archivedAt = Date.now()
+  const rootId = await getRootFolderId()
+  const archive: TabArchive = { id: crypto.randomUUID(), archivedAt, groups: [] }
+
+  for (const group of groups) {
+    const tabs: chrome.tabs.Tab[] = []
+    for (const tabId of group.tabIds) {
+      try {
+        tabs.push(await chrome.tabs.get(tabId))
+      } catch {
+        // Tab no longer exists
+      }
+    }
+    const open = tabs.filter((tab) => tab.url).sort((a, b) => a.index - b.index)
+    if (open.length === 0) continue
+
+    const folder = await chrome.bookmarks.create({
+      parentId: rootId,
+      title: `${group.name} (${formatDate(archivedAt)})`
+    })
+    for (const tab of open) {
+      await chrome.bookmarks.create({ parentId: folder.id, title: tab.title || tab.url, url: tab.url })
+    }
+
+    archive.groups.push({
+      name: group.name,
+      color: group.color,
+      urls: open.map((tab) => tab.url!),
+      folderId: folder.id
+    })
+    // Close only once the bookmarks exist, so a failure never loses a tab
+    await chrome.tabs.remove(open.map((tab) => tab.id!))
+  }
+
+  if (archive.groups.length === 0) {
+    throw new Error("No stale tabs left to archive")
+  }
+
+  await writeArchives([archive, ...await listArchives()])
+  return archive
+}
+
+/**
+ * Forgets an archive. Its bookmarks are kept.
+ *
+ * @param id - Archive id
+ * @returns Promise resolving to true if an archive was removed
+ */
+export async function deleteArchive(id: string): Promise<boolean> {
+  const archives = await listArchives()
+  const remaining = archives.filter((a) => a.id !== id)
+  await writeArchives(remaining)
+  return remaining.length !== archives.length
+}
+
+/**
+ * Reopens an archive's tabs in the current window, each archived group as
+ * a tab group again.
+ *
+ * @param id - Archive id
+ * @returns Promise resolving to the number of tabs opened
+ */
+export async function restoreArchive(id: string): Promise<number> {
+  const archive = (await listArchives()).find((a) => a.id === id)
+  if (!archive) {
+    throw new Error("Archive not found")
+  }
+
+  const { id: windowId } = await chrome.windows.getCurrent()
+  const groups: TabGroup[] = []
+  for (const group of archive.groups) {
+    const tabIds: number[] = []
+    for (const url of group.urls) {
+      const tab = await chrome.tabs.create({ url, windowId, active: false })
+      if (tab.id !== undefined) tabIds.push(tab.id)
+    }
+    groups.push({ name: group.name, color: group.color, tabIds })
+  }
+
+  await createTabGroups(groups)
+  return groups.reduce((sum, group) => sum + group.tabIds.length, 0)
+}
@@ -0,0 +1,160 @@
+import type { TabInfo, TabGroup } from "./types"
+
+// Words that don't distinguish one group name from another
+const STOP_WORDS = new Set(["a", "an", "and", "the", "of", "for", "to", "in", "on", "with"])
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase()
+  } catch {
+    return ""
+  }
+}
+
+/**
+ * Splits tabs into evenly sized batches of at most `batchSize` tabs.
+ *
+ * Tabs are ordered by hostname first so pages from the same site land in
+ * the same batch, which keeps each batch's groups coherent.
+ *
+ * @param tabs - Tabs to split
+ * @param batchSize - Maximum tabs per batch
+ * @returns Batches in order; a single batch when everything fits
+ */
+export function splitIntoBatches(tabs: TabInfo[], batchSize: number): TabInfo[][] {
+  const size = Math.max(1, Math.floor(batchSize))
+  if (tabs.length <= size) return [tabs]
+
+  const sorted = [...tabs].sort((a, b) => hostnameOf(a.url).localeCompare(hostnameOf(b.url)))
+  const batchCount = Math.ceil(sorted.length / size)
+  const perBatch = Math.ceil(sorted.length / batchCount)
+
+  const batches: TabInfo[][] = []
+  for (let i = 0; i < sorted.length; i += perBatch) {
+    batches.push(sorted.slice(i, i + perBatch))
+  }
+  return batches
+}
+
+/**
+ * Runs async jobs with at most `limit` in flight, preserving result order.
+ * The first rejection rejects the whole run: queued jobs are not started
+ * and the signal passed to jobs in flight is aborted.
+ *
+ * @param items - Inputs, one job each
+ * @param limit - Maximum concurrent jobs
+ * @param job - Async function run for each input, given a signal to stop on
+ * @param signal - Aborts every job when the caller cancels
+ * @returns Promise resolving to the results in input order
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  job: (item: T, index: number, signal: AbortSignal) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+  let failed = false
+
+  const controller = new AbortController()
+  const abort = () => controller.abort()
+  if (signal?.aborted) abort()
+  signal?.addEventListener("abort", abort)
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++
+      try {
+        results[index] = await job(items[index], index, controller.signal)
+      } catch (error) {
+        // Results of the other jobs would be thrown away - stop spending on them
+        failed = true
+        abort()
+        throw error
+      }
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(Math.floor(limit), items.length))
+  try {
+    await Promise.all(Array.from({ length: workerCount }, worker))
+  } finally {
+    signal?.removeEventListener("abort", abort)
+  }
+  return results
+}
+
+function stem(word: string): string {
+  let stemmed = word
+  if (stemmed.length > 5 && stemmed.endsWith("ing")) {
+    stemmed = stemmed.slice(0, -3)
+    // debugging -> debugg -> debug
+    if (/(.)\1$/.test(stemmed)) stemmed = stemmed.slice(0, -1)
+  } else if (stemmed.length > 4 && stemmed.endsWith("es")) {
+    stemmed = stemmed.slice(0, -2)
+  } else if (stemmed.length > 3 && stemmed.endsWith("s") && !stemmed.endsWith("ss")) {
+    stemmed = stemmed.slice(0, -1)
+  }
+  return stemmed
+}
+
+/**
+ * Reduces a group name to a comparison key, ignoring emoji, punctuation,
+ * case, word order, filler words and simple plural/-ing endings.
+ *
+ * @param name - Group name as returned by the AI
+ * @returns Key that is equal for names that mean the same group
+ *
+ * @example
+ * ```typescript
+ * groupNameKey("React Debugging") === groupNameKey("🛠️ React debug") // true
+ * ```
+ */
+export function groupNameKey(name: string): string {
+  const words = name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter((word) => word && !STOP_WORDS.has(word))
+    .map(stem)
+  const key = [...new Set(words)].sort().join(" ")
+  return key || name.trim().toLowerCase()
+}
+
+/**
+ * Merges groups from separate batches that describe the same thing.
+ *
+ * Groups are merged when they target the same existing browser group or
+ * their names share a `groupNameKey`. The merged group keeps the existing
+ * group's id, and otherwise the name and color of its largest member.
+ *
+ * @param groups - Groups from every batch, in batch order
+ * @returns One group per distinct topic
+ */
+export function reconcileGroups(groups: TabGroup[]): TabGroup[] {
+  const merged: { key: string; group: TabGroup; largest: number }[] = []
+
+  for (const group of groups) {
+    const key = groupNameKey(group.name)
+    const match = merged.find((entry) =>
+      (group.groupId !== undefined && entry.group.groupId === group.groupId) || entry.key === key
+    )
+
+    if (!match) {
+      merged.push({ key, group: { ...group, tabIds: [...group.tabIds] }, largest: group.tabIds.length })
+      continue
+    }
+
+    match.group.tabIds.push(...group.tabIds.filter((id) => !match.group.tabIds.includes(id)))
+    if (group.groupId !== undefined && match.group.groupId === undefined) {
+      // Existing browser group wins - keep its name and color
+      match.group = { ...group, tabIds: match.group.tabIds }
+    } else if (match.group.groupId === undefined && group.tabIds.length > match.largest) {
+      match.group = { ...match.group, name: group.name, color: group.color }
+      match.largest = group.tabIds.length
+    }
+  }
+
+  return merged.map((entry) => entry.group)
+}
@@ -0,0 +1,60 @@
+import type { TabGroup, ExistingGroup } from "./types"
+import { VALID_COLORS } from "./api"
+
+/**
+ * Carries names and colors over from the previous layout.
+ *
+ * A new group that holds more than half of a previous group's tabs takes
+ * that group's name and color. When it holds the majority of several
+ * previous groups, the one with the most shared tabs wins. Other groups
+ * that ended up with a color now taken by a carried-over group are moved
+ * to an unused color where one is left, so a color keeps meaning the
+ * same thing.
+ *
+ * @param groups - Groups from the organizer
+ * @param previous - Groups the tabs were in before this run
+ * @returns The groups with carried-over names and colors
+ *
+ * @example
+ * ```typescript
+ * const previous = await getExistingGroups(tabs)
+ * const stable = keepPreviousIdentity(aiGroups, previous)
+ * ```
+ */
+export function keepPreviousIdentity(groups: TabGroup[], previous: ExistingGroup[]): TabGroup[] {
+  if (previous.length === 0) return groups
+
+  const matches = new Map<number, { group: ExistingGroup; overlap: number }>()
+  for (const old of previous) {
+    const oldTabIds = new Set(old.tabs.map((tab) => tab.id))
+    groups.forEach((group, index) => {
+      const overlap = group.tabIds.filter((tabId) => oldTabIds.has(tabId)).length
+      // A strict majority can only be held by one new group
+      if (overlap * 2 <= oldTabIds.size) return
+      const current = matches.get(index)
+      if (!current || overlap > current.overlap) {
+        matches.set(index, { group: old, overlap })
+      }
+    })
+  }
+  if (matches.size === 0) return groups
+
+  const keptColors = new Set([...matches.values()].map(({ group }) => group.color))
+  const freeColors = VALID_COLORS.filter((color) => !keptColors.has(color))
+  const keptNames = new Set([...matches.values()].map(({ group }) => group.name))
+
+  return groups.map((group, index) => {
+    const match = matches.get(index)
+    if (match) {
+      return { ...group, name: match.group.name, color: match.group.color }
+    }
+    // Avoid two groups with the same label
+    const name = keptNames.has(group.name) ? `${group.name} (new)` : group.name
+    if (!keptColors.has(group.color)) {
+      return { ...group, name }
+    }
+    const color = freeColors.shift()
+    if (color) freeColors.push(color) // Cycle when there are more groups than free colors
+    return { ...group, name, color: color ?? group.color }
+  })
+}
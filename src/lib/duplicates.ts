@@ -0,0 +1,115 @@
+import type { TabInfo, DuplicateSet } from "./types"
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = [
+  "fbclid",
+  "gclid",
+  "dclid",
+  "msclkid",
+  "yclid",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "_hsenc",
+  "_hsmi",
+  "ref",
+  "ref_src",
+  "ref_url",
+  "spm"
+]
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase()
+  return lower.startsWith("utm_") || TRACKING_PARAMS.includes(lower)
+}
+
+/**
+ * Normalizes a URL for duplicate detection.
+ *
+ * Drops the fragment and tracking query parameters, sorts the remaining
+ * parameters, lowercases the host and removes a trailing slash, so
+ * `https://Docs.site/page/?utm_source=x#intro` and `https://docs.site/page`
+ * compare equal. Unparseable URLs are returned unchanged.
+ *
+ * @param url - URL to normalize
+ * @returns Normalized URL string
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    parsed.hash = ""
+
+    const params = [...parsed.searchParams.entries()]
+      .filter(([name]) => !isTrackingParam(name))
+      .sort(([a], [b]) => a.localeCompare(b))
+    parsed.search = new URLSearchParams(params).toString()
+
+    if (parsed.pathname.length > 1 && parsed.pathname.endsWith("/")) {
+      parsed.pathname = parsed.pathname.slice(0, -1)
+    }
+    return parsed.toString()
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Finds tabs that show the same page.
+ *
+ * Tabs are compared by normalized URL. For each set one tab is kept: a
+ * preferred tab if any (e.g. the active tab), otherwise the first one.
+ *
+ * @param tabs - Tabs to check
+ * @param preferTabIds - Tabs to keep over their duplicates when possible
+ * @returns One entry per page that is open more than once
+ *
+ * @example
+ * ```typescript
+ * const duplicates = findDuplicates(tabs, new Set([activeTabId]))
+ * const extra = duplicates.flatMap(d => d.duplicateTabIds)
+ * ```
+ */
+export function findDuplicates(tabs: TabInfo[], preferTabIds: Set<number> = new Set()): DuplicateSet[] {
+  const byUrl = new Map<string, TabInfo[]>()
+  for (const tab of tabs) {
+    if (!tab.url) continue
+    const key = normalizeUrl(tab.url)
+    const list = byUrl.get(key) ?? []
+    list.push(tab)
+    byUrl.set(key, list)
+  }
+
+  const duplicates: DuplicateSet[] = []
+  for (const [url, list] of byUrl) {
+    if (list.length < 2) continue
+
+    const keep = list.find((tab) => preferTabIds.has(tab.id)) ?? list[0]
+    duplicates.push({
+      url,
+      title: keep.title,
+      exact: list.every((tab) => tab.url === list[0].url),
+      keepTabId: keep.id,
+      duplicateTabIds: list.filter((tab) => tab !== keep).map((tab) => tab.id)
+    })
+  }
+  return duplicates
+}
+
+/**
+ * Closes the extra copies in the given duplicate sets, keeping one tab each.
+ *
+ * @param duplicates - Sets from `findDuplicates`
+ * @returns Promise resolving to the number of tabs closed
+ */
+export async function closeDuplicateTabs(duplicates: DuplicateSet[]): Promise<number> {
+  let closed = 0
+  for (const tabId of duplicates.flatMap((d) => d.duplicateTabIds)) {
+    try {
+      await chrome.tabs.remove(tabId)
+      closed++
+    } catch {
+      // Tab was already closed
+    }
+  }
+  return closed
+}
@@ -0,0 +1,246 @@
+import type { Settings, TabInfo, TabGroup, ExistingGroup, TokenUsage } from "./types"
+import { requestEmbeddings, nameClustersWithAI, sanitizeUrl } from "./api"
+
+const EMBEDDING_CACHE_KEY = "embedding_cache"
+
+// Least recently used entries are evicted past this many characters of JSON. A cached
+// vector takes 10-25 KB, and storage.local is capped at 10 MB shared with everything else
+const MAX_CACHE_SIZE = 2_000_000
+// Decimal places kept per vector component when caching
+const CACHE_PRECISION = 4
+const MISC_GROUP_NAME = "📂 Misc"
+
+interface CacheEntry {
+  vector: number[]
+  usedAt: number
+}
+
+type EmbeddingCache = Record<string, CacheEntry>
+
+function cacheKey(model: string, url: string): string {
+  return `${model}|${url}`
+}
+
+async function readCache(): Promise<EmbeddingCache> {
+  const result = await chrome.storage.local.get(EMBEDDING_CACHE_KEY)
+  const cache = result[EMBEDDING_CACHE_KEY]
+  return cache && typeof cache === "object" ? (cache as EmbeddingCache) : {}
+}
+
+async function writeCache(cache: EmbeddingCache): Promise<void> {
+  const entries = Object.entries(cache).sort(([, a], [, b]) => b.usedAt - a.usedAt)
+  const kept: [string, CacheEntry][] = []
+  let size = 0
+  for (const [key, entry] of entries) {
+    size += key.length + JSON.stringify(entry).length
+    if (size > MAX_CACHE_SIZE) break
+    kept.push([key, entry])
+  }
+  await chrome.storage.local.set({ [EMBEDDING_CACHE_KEY]: Object.fromEntries(kept) })
+}
+
+function embeddingInput(tab: TabInfo): string {
+  return `${tab.title}\n${sanitizeUrl(tab.url)}`
+}
+
+/**
+ * Returns an embedding per tab, fetching only URLs missing from the cache
+ */
+async function embedTabs(
+  tabs: TabInfo[],
+  settings: Settings,
+  options: {
+    signal?: AbortSignal
+    onDebug?: (msg: string) => void
+    onUsage?: (usage: TokenUsage, model: string) => void
+  }
+): Promise<Map<number, number[]>> {
+  const cache = await readCache()
+  const now = Date.now()
+  const vectors = new Map<number, number[]>()
+  const missing: TabInfo[] = []
+
+  for (const tab of tabs) {
+    const entry = cache[cacheKey(settings.embeddingModel, tab.url)]
+    if (entry) {
+      entry.usedAt = now
+      vectors.set(tab.id, entry.vector)
+    } else if (!missing.some((m) => m.url === tab.url)) {
+      missing.push(tab)
+    }
+  }
+  options.onDebug?.(`Embeddings: ${tabs.length - missing.length} cached, ${missing.length} to fetch`)
+
+  if (missing.length > 0) {
+    const fetched = await requestEmbeddings(missing.map(embeddingInput), settings, options)
+    missing.forEach((tab, index) => {
+      const factor = 10 ** CACHE_PRECISION
+      const vector = fetched[index].map((value) => Math.round(value * factor) / factor)
+      cache[cacheKey(settings.embeddingModel, tab.url)] = { vector, usedAt: now }
+    })
+  }
+
+  // Tabs sharing a URL share one cached vector
+  for (const tab of tabs) {
+    const entry = cache[cacheKey(settings.embeddingModel, tab.url)]
+    if (entry) vectors.set(tab.id, entry.vector)
+  }
+
+  try {
+    await writeCache(cache)
+  } catch (error) {
+    // Cache is an optimization - grouping still works without it
+    console.error('[Tab Organizer] Failed to save embedding cache:', error)
+    options.onDebug?.(`Failed to save embedding cache: ${error instanceof Error ? error.message : "Unknown error"}`)
+  }
+  return vectors
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+/**
+ * Average-linkage agglomerative clustering on cosine similarity.
+ *
+ * Repeatedly merges the two most similar clusters until no pair is at
+ * least `threshold` similar.
+ *
+ * @param vectors - One vector per item
+ * @param threshold - Minimum average similarity (0-1) for a merge
+ * @returns Clusters as lists of item indices
+ */
+export function clusterVectors(vectors: number[][], threshold: number): number[][] {
+  const clusters: (number[] | null)[] = vectors.map((_, index) => [index])
+  const similarity = vectors.map((a) => vectors.map((b) => cosineSimilarity(a, b)))
+
+  while (true) {
+    let best = -Infinity
+    let bestA = -1
+    let bestB = -1
+    for (let a = 0; a < clusters.length; a++) {
+      if (!clusters[a]) continue
+      for (let b = a + 1; b < clusters.length; b++) {
+        if (clusters[b] && similarity[a][b] > best) {
+          best = similarity[a][b]
+          bestA = a
+          bestB = b
+        }
+      }
+    }
+    if (bestA === -1 || best < threshold) break
+
+    // Lance-Williams update: the merged cluster's average similarity to each other cluster
+    const sizeA = clusters[bestA]!.length
+    const sizeB = clusters[bestB]!.length
+    for (let k = 0; k < clusters.length; k++) {
+      if (!clusters[k] || k === bestA || k === bestB) continue
+      const merged = (sizeA * similarity[bestA][k] + sizeB * similarity[bestB][k]) / (sizeA + sizeB)
+      similarity[bestA][k] = merged
+      similarity[k][bestA] = merged
+    }
+    clusters[bestA] = [...clusters[bestA]!, ...clusters[bestB]!]
+    clusters[bestB] = null
+  }
+
+  return clusters.filter((cluster): cluster is number[] => cluster !== null)
+}
+
+function centroid(vectors: number[][]): number[] {
+  const sum = new Array(vectors[0]?.length ?? 0).fill(0)
+  for (const vector of vectors) {
+    vector.forEach((value, i) => (sum[i] += value))
+  }
+  return sum.map((value) => value / vectors.length)
+}
+
+/**
+ * Groups tabs by clustering their embeddings locally, then asks the chat
+ * model only to name the clusters.
+ *
+ * Each tab's title and sanitized URL is embedded through the provider's
+ * `/embeddings` endpoint; vectors are cached per URL so repeat runs only
+ * embed new pages. Tabs that don't cluster with anything go to a Misc
+ * group. In incremental mode a tab similar enough to an existing group's
+ * centroid joins that group.
+ *
+ * @param tabs - Tabs to organize
+ * @param settings - User configuration; uses `embeddingModel` and `clusterThreshold`
+ * @param options - Optional signal, debug and token usage callbacks, and existing groups
+ * @returns Promise resolving to groups in the same shape as `organizeTabsWithAI`
+ */
+export async function organizeTabsWithEmbeddings(
+  tabs: TabInfo[],
+  settings: Settings,
+  options?: {
+    signal?: AbortSignal
+    onDebug?: (msg: string) => void
+    existingGroups?: ExistingGroup[]
+    onUsage?: (usage: TokenUsage, model: string) => void
+  }
+): Promise<TabGroup[]> {
+  const { signal, onDebug, existingGroups = [], onUsage } = options ?? {}
+  if (tabs.length === 0) {
+    throw new Error("No tabs to organize")
+  }
+
+  const memberTabs = existingGroups.flatMap((group) => group.tabs)
+  const vectors = await embedTabs([...tabs, ...memberTabs], settings, { signal, onDebug, onUsage })
+  const groups: TabGroup[] = []
+  let loose = tabs
+
+  // Incremental: join the existing group whose centroid is closest
+  if (existingGroups.length > 0) {
+    const centroids = existingGroups.map((group) =>
+      centroid(group.tabs.map((tab) => vectors.get(tab.id)).filter((v): v is number[] => !!v))
+    )
+    loose = []
+    for (const tab of tabs) {
+      const vector = vectors.get(tab.id)!
+      let bestIndex = -1
+      let best = settings.clusterThreshold
+      centroids.forEach((c, index) => {
+        const similarity = c.length > 0 ? cosineSimilarity(vector, c) : 0
+        if (similarity >= best) {
+          best = similarity
+          bestIndex = index
+        }
+      })
+      if (bestIndex === -1) {
+        loose.push(tab)
+        continue
+      }
+      const existing = existingGroups[bestIndex]
+      const group = groups.find((g) => g.groupId === existing.groupId)
+      if (group) group.tabIds.push(tab.id)
+      else groups.push({ name: existing.name, color: existing.color, tabIds: [tab.id], groupId: existing.groupId })
+    }
+  }
+
+  if (loose.length === 0) return groups
+
+  const clusters = clusterVectors(loose.map((tab) => vectors.get(tab.id)!), settings.clusterThreshold)
+    .map((indices) => indices.map((index) => loose[index]))
+  const multi = clusters.filter((cluster) => cluster.length > 1)
+  const misc = clusters.filter((cluster) => cluster.length === 1).flat()
+  onDebug?.(`Clustered ${loose.length} tabs into ${multi.length} clusters (${misc.length} unclustered)`)
+
+  if (multi.length > 0) {
+    const names = await nameClustersWithAI(multi, settings, { signal, onDebug, onUsage })
+    multi.forEach((cluster, index) => {
+      groups.push({ ...names[index], tabIds: cluster.map((tab) => tab.id) })
+    })
+  }
+  if (misc.length > 0) {
+    groups.push({ name: MISC_GROUP_NAME, color: "grey", tabIds: misc.map((tab) => tab.id) })
+  }
+  return groups
+}
@@ -0,0 +1,171 @@
+import type {
+  RunRecord,
+  RunOutcome,
+  RunTrigger,
+  PhaseTiming,
+  Settings,
+  SessionGroup,
+  TabGroup,
+  TabInfo
+} from "./types"
+
+const STORAGE_KEY = "run_history"
+// The run in progress lives in storage too: the service worker may be
+// restarted while a proposal waits for approval
+const CURRENT_RUN_KEY = "current_run"
+// Oldest runs are dropped beyond this
+const MAX_RUNS = 50
+
+type RunDetails = Partial<Pick<RunRecord, "tabCount" | "groups" | "offline" | "usage" | "cost">>
+
+interface DraftRun extends Omit<RunRecord, "endedAt" | "outcome"> {
+  phase?: PhaseTiming["phase"]
+  phaseStartedAt: number
+}
+
+async function getDraft(): Promise<DraftRun | undefined> {
+  const result = await chrome.storage.local.get(CURRENT_RUN_KEY)
+  return result[CURRENT_RUN_KEY] as DraftRun | undefined
+}
+
+async function setDraft(draft: DraftRun): Promise<void> {
+  await chrome.storage.local.set({ [CURRENT_RUN_KEY]: draft })
+}
+
+// Adds the time spent in the current phase; repeated phases are summed
+function closePhase(draft: DraftRun, now: number): PhaseTiming[] {
+  if (!draft.phase) return draft.phases
+  const ms = now - draft.phaseStartedAt
+  const existing = draft.phases.find((timing) => timing.phase === draft.phase)
+  return existing
+    ? draft.phases.map((timing) => (timing === existing ? { ...timing, ms: timing.ms + ms } : timing))
+    : [...draft.phases, { phase: draft.phase, ms }]
+}
+
+/**
+ * Retrieves the run history, newest first.
+ *
+ * @returns Promise resolving to the recorded runs
+ */
+export async function getRunHistory(): Promise<RunRecord[]> {
+  const result = await chrome.storage.local.get(STORAGE_KEY)
+  const history = result[STORAGE_KEY]
+  return Array.isArray(history) ? history : []
+}
+
+export async function clearRunHistory(): Promise<void> {
+  await chrome.storage.local.remove(STORAGE_KEY)
+}
+
+/**
+ * Starts recording a run. Any unfinished run left behind is discarded.
+ *
+ * @param trigger - What started the run
+ * @param settings - Settings the run uses, for the organizer and model
+ */
+export async function beginRun(trigger: RunTrigger, settings: Settings): Promise<void> {
+  const now = Date.now()
+  await setDraft({
+    id: crypto.randomUUID(),
+    trigger,
+    startedAt: now,
+    organizer: settings.organizer,
+    model: settings.organizer === "ai"
+      ? settings.model
+      : settings.organizer === "embeddings" ? settings.embeddingModel : undefined,
+    tabCount: 0,
+    groups: [],
+    phases: [],
+    phaseStartedAt: now
+  })
+}
+
+/**
+ * Notes that the current run entered a new phase.
+ *
+ * @param phase - Phase being entered
+ */
+export async function markRunPhase(phase: PhaseTiming["phase"]): Promise<void> {
+  const draft = await getDraft()
+  if (!draft || draft.phase === phase) return
+  const now = Date.now()
+  await setDraft({ ...draft, phases: closePhase(draft, now), phase, phaseStartedAt: now })
+}
+
+/**
+ * Adds details to the current run as they become known.
+ *
+ * @param details - Fields to set
+ */
+export async function updateRun(details: RunDetails): Promise<void> {
+  const draft = await getDraft()
+  if (!draft) return
+  await setDraft({ ...draft, ...details })
+}
+
+/**
+ * Finishes the current run and moves it into the history.
+ * Does nothing when no run is being recorded.
+ *
+ * @param outcome - How the run ended
+ * @param error - Error message for failed runs
+ */
+export async function finishRun(outcome: RunOutcome, error?: string): Promise<void> {
+  const draft = await getDraft()
+  if (!draft) return
+  await chrome.storage.local.remove(CURRENT_RUN_KEY)
+
+  const now = Date.now()
+  const { phase, phaseStartedAt, ...run } = draft
+  const record: RunRecord = { ...run, phases: closePhase(draft, now), endedAt: now, outcome, error }
+  const history = await getRunHistory()
+  await chrome.storage.local.set({ [STORAGE_KEY]: [record, ...history].slice(0, MAX_RUNS) })
+}
+
+/**
+ * Describes groups by their tabs' URLs, in the same form as sessions.
+ * Tabs that were closed in the meantime are left out, and so are incognito
+ * tabs, whose URLs must not outlive the incognito session in the history.
+ *
+ * @param groups - Groups with tab ids
+ * @returns Promise resolving to the groups with URLs
+ */
+export async function describeGroups(groups: TabGroup[]): Promise<SessionGroup[]> {
+  const tabs = await chrome.tabs.query({})
+  const urls = new Map(tabs.filter((tab) => !tab.incognito).map((tab) => [tab.id, tab.url]))
+  return groups.map((group) => ({
+    name: group.name,
+    color: group.color,
+    urls: group.tabIds
+      .map((tabId) => urls.get(tabId))
+      .filter((url): url is string => !!url)
+  }))
+}
+
+/**
+ * Maps a past run's grouping onto the tabs open now.
+ *
+ * Each URL claims one open tab with the same URL, so pages open twice
+ * are only grouped as often as they were in the run. Groups without any
+ * open tab are dropped.
+ *
+ * @param run - Run to re-apply
+ * @param tabs - Tabs that may be grouped
+ * @returns Groups ready for `createTabGroups`
+ */
+export function matchRunGroups(run: RunRecord, tabs: TabInfo[]): TabGroup[] {
+  const available = new Map<string, number[]>()
+  for (const tab of tabs) {
+    available.set(tab.url, [...(available.get(tab.url) ?? []), tab.id])
+  }
+
+  return run.groups
+    .map((group) => ({
+      name: group.name,
+      color: group.color,
+      tabIds: group.urls
+        .map((url) => available.get(url)?.shift())
+        .filter((tabId): tabId is number => tabId !== undefined)
+    }))
+    .filter((group) => group.tabIds.length > 0)
+}
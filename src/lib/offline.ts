@@ -0,0 +1,244 @@
+import type { TabInfo, TabGroup, ExistingGroup } from "./types"
+import { assignSmartColor } from "./api"
+
+// Public suffixes with two labels, so "bbc.co.uk" is the domain rather than "co.uk"
+const MULTI_PART_SUFFIXES = new Set([
+  "co.uk", "org.uk", "ac.uk", "gov.uk", "co.jp", "ne.jp", "or.jp", "com.au", "net.au", "org.au",
+  "co.nz", "com.br", "com.cn", "com.mx", "co.in", "co.kr", "com.tr", "com.sg", "co.za"
+])
+
+// Display names for sites whose domain doesn't capitalize well
+const SITE_NAMES: Record<string, string> = {
+  "github.com": "GitHub",
+  "gitlab.com": "GitLab",
+  "youtube.com": "YouTube",
+  "stackoverflow.com": "Stack Overflow",
+  "linkedin.com": "LinkedIn",
+  "reddit.com": "Reddit",
+  "x.com": "X",
+  "twitter.com": "Twitter",
+  "google.com": "Google",
+  "wikipedia.org": "Wikipedia",
+  "npmjs.com": "npm",
+  "chatgpt.com": "ChatGPT"
+}
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "with", "from", "that", "this", "your", "you", "are", "how", "what", "why",
+  "new", "home", "page", "login", "sign", "welcome", "untitled", "tab", "www", "com", "org", "net", "http", "https"
+])
+
+// A site with more tabs than this is split by its first path segment
+const SPLIT_THRESHOLD = 6
+// Minimum keyword overlap (Jaccard) for two small clusters to merge
+const KEYWORD_SIMILARITY = 0.25
+const MISC_GROUP_NAME = "📂 Misc"
+
+interface Cluster {
+  tabs: TabInfo[]
+  name: string
+  keywords: Set<string>
+}
+
+/**
+ * Returns the registrable domain of a URL ("docs.github.com" -> "github.com"),
+ * or an empty string for URLs without a host.
+ */
+export function registrableDomain(url: string): string {
+  let host: string
+  try {
+    host = new URL(url).hostname.toLowerCase()
+  } catch {
+    return ""
+  }
+  if (!host || /^[\d.]+$/.test(host) || !host.includes(".")) return host
+
+  const labels = host.split(".")
+  const lastTwo = labels.slice(-2).join(".")
+  const count = MULTI_PART_SUFFIXES.has(lastTwo) ? 3 : 2
+  return labels.slice(-count).join(".")
+}
+
+function firstPathSegment(url: string): string {
+  try {
+    return new URL(url).pathname.split("/").filter(Boolean)[0] ?? ""
+  } catch {
+    return ""
+  }
+}
+
+function siteName(domain: string): string {
+  if (SITE_NAMES[domain]) return SITE_NAMES[domain]
+  const label = domain.split(".")[0] || domain
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
+function titleKeywords(title: string, domain: string): Set<string> {
+  const domainWords = new Set(domain.split("."))
+  return new Set(
+    title
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length >= 3 && !STOP_WORDS.has(word) && !domainWords.has(word) && !/^\d+$/.test(word))
+  )
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0
+  let shared = 0
+  for (const word of a) if (b.has(word)) shared++
+  return shared / (a.size + b.size - shared)
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1)
+}
+
+// Names a keyword cluster from the words most of its tabs share
+function keywordName(tabs: TabInfo[]): string {
+  const counts = new Map<string, number>()
+  for (const tab of tabs) {
+    for (const word of titleKeywords(tab.title, registrableDomain(tab.url))) {
+      counts.set(word, (counts.get(word) ?? 0) + 1)
+    }
+  }
+  const top = [...counts.entries()]
+    .filter(([, count]) => count > 1)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 2)
+    .map(([word]) => capitalize(word))
+  return top.length > 0 ? top.join(" ") : MISC_GROUP_NAME
+}
+
+/**
+ * Builds clusters by site, splitting busy sites by their first path segment
+ */
+function clusterByDomain(tabs: TabInfo[]): Cluster[] {
+  const byDomain = new Map<string, TabInfo[]>()
+  for (const tab of tabs) {
+    const domain = registrableDomain(tab.url)
+    byDomain.set(domain, [...(byDomain.get(domain) ?? []), tab])
+  }
+
+  const clusters: Cluster[] = []
+  for (const [domain, domainTabs] of byDomain) {
+    const name = siteName(domain)
+    const keywords = new Set(domainTabs.flatMap((tab) => [...titleKeywords(tab.title, domain)]))
+
+    if (domainTabs.length <= SPLIT_THRESHOLD) {
+      clusters.push({ tabs: domainTabs, name, keywords })
+      continue
+    }
+
+    const byPath = new Map<string, TabInfo[]>()
+    for (const tab of domainTabs) {
+      const segment = firstPathSegment(tab.url)
+      byPath.set(segment, [...(byPath.get(segment) ?? []), tab])
+    }
+    const sections = [...byPath.entries()].filter(([segment, list]) => segment && list.length >= 2)
+    if (sections.length < 2) {
+      clusters.push({ tabs: domainTabs, name, keywords })
+      continue
+    }
+
+    const rest = domainTabs.filter((tab) => !sections.some(([, list]) => list.includes(tab)))
+    for (const [segment, list] of sections) {
+      clusters.push({
+        tabs: list,
+        name: `${name} · ${segment}`,
+        keywords: new Set(list.flatMap((tab) => [...titleKeywords(tab.title, domain)]))
+      })
+    }
+    if (rest.length > 0) {
+      clusters.push({ tabs: rest, name, keywords })
+    }
+  }
+  return clusters
+}
+
+/**
+ * Groups tabs locally without any network access.
+ *
+ * Tabs are clustered by registrable domain, busy sites are split by URL
+ * path prefix, and single-tab sites are merged by title keyword similarity.
+ * Groups are named after the site or the shared keywords and colored with
+ * `assignSmartColor`. In incremental mode a loose tab joins an existing
+ * group that already holds tabs from the same site.
+ *
+ * @param tabs - Tabs to organize
+ * @param existingGroups - Groups to keep (incremental mode)
+ * @returns Suggested groups, in the same shape as `organizeTabsWithAI`
+ *
+ * @example
+ * ```typescript
+ * const groups = organizeTabsOffline(tabs)
+ * await createTabGroups(groups, options)
+ * ```
+ */
+export function organizeTabsOffline(tabs: TabInfo[], existingGroups: ExistingGroup[] = []): TabGroup[] {
+  const groups: TabGroup[] = []
+  let loose = tabs
+
+  // Incremental: add tabs to an existing group from the same site
+  if (existingGroups.length > 0) {
+    loose = []
+    for (const tab of tabs) {
+      const domain = registrableDomain(tab.url)
+      const existing = domain
+        ? existingGroups.find((group) => group.tabs.some((member) => registrableDomain(member.url) === domain))
+        : undefined
+      if (!existing) {
+        loose.push(tab)
+        continue
+      }
+      const group = groups.find((g) => g.groupId === existing.groupId)
+      if (group) {
+        group.tabIds.push(tab.id)
+      } else {
+        groups.push({ name: existing.name, color: existing.color, tabIds: [tab.id], groupId: existing.groupId })
+      }
+    }
+  }
+
+  const clusters = clusterByDomain(loose)
+  const large = clusters.filter((cluster) => cluster.tabs.length > 1)
+  const small = clusters.filter((cluster) => cluster.tabs.length === 1)
+
+  // Merge single-tab sites whose titles share keywords
+  const merged: Cluster[] = []
+  for (const cluster of small) {
+    const match = merged.find((m) => jaccard(m.keywords, cluster.keywords) >= KEYWORD_SIMILARITY)
+    if (match) {
+      match.tabs.push(...cluster.tabs)
+      cluster.keywords.forEach((word) => match.keywords.add(word))
+    } else {
+      merged.push({ ...cluster, tabs: [...cluster.tabs], keywords: new Set(cluster.keywords) })
+    }
+  }
+
+  const misc: TabInfo[] = []
+  for (const cluster of merged) {
+    if (cluster.tabs.length > 1) {
+      large.push({ ...cluster, name: keywordName(cluster.tabs) })
+    } else {
+      misc.push(...cluster.tabs)
+    }
+  }
+  if (misc.length > 0) {
+    large.push({ tabs: misc, name: MISC_GROUP_NAME, keywords: new Set() })
+  }
+
+  for (const cluster of large) {
+    const existing = groups.find((g) => g.groupId === undefined && g.name === cluster.name)
+    if (existing) {
+      existing.tabIds.push(...cluster.tabs.map((tab) => tab.id))
+      continue
+    }
+    groups.push({
+      name: cluster.name,
+      color: assignSmartColor(cluster.name),
+      tabIds: cluster.tabs.map((tab) => tab.id)
+    })
+  }
+  return groups
+}
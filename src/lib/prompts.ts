@@ -0,0 +1,127 @@
+import type { PromptTemplate } from "./types"
+
+// Templates live in local storage: a few edited prompts plus the rules
+// would quickly outgrow the 8 KB per-item quota of chrome.storage.sync
+const STORAGE_KEY = "prompt_templates"
+
+export const DEFAULT_PROMPT_ID = "default"
+
+export const DEFAULT_PROMPT_TEMPLATE = `You are a browser tab organizer. Create precise, task-focused groups.
+
+Guidelines:
+- Create SPECIFIC groups (e.g. "🛠️ React Debugging" not "💻 Development")
+- Prefer more smaller groups over fewer large ones
+- Split by distinct tasks/topics, even within same domain
+- Max {{maxTabsPerGroup}} tabs per group - split larger sets by subtask
+- ALWAYS prefix names with relevant emoji
+- Every tab must be in exactly one group
+
+Return ONLY valid JSON:
+{"groups":[{"name":"💻 Work","color":"blue","tabIds":[0,1,2]}]}
+
+Colors: {{colors}}`
+
+// Variables a template may use, with a description for the editor
+export const PROMPT_VARIABLES: Record<string, string> = {
+  maxTabsPerGroup: "Tab limit per group from the setting below",
+  colors: "Allowed group colors",
+  existingGroups: "Names of the groups kept in incremental mode, or \"none\""
+}
+
+export type PromptVariables = Record<keyof typeof PROMPT_VARIABLES, string>
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g
+
+/**
+ * The built-in template, always available and never stored
+ */
+export function defaultPromptTemplate(): PromptTemplate {
+  return { id: DEFAULT_PROMPT_ID, name: "Default", system: DEFAULT_PROMPT_TEMPLATE }
+}
+
+/**
+ * Retrieves the built-in template followed by the user's templates.
+ *
+ * @returns Promise resolving to all prompt templates
+ */
+export async function listPromptTemplates(): Promise<PromptTemplate[]> {
+  const result = await chrome.storage.local.get(STORAGE_KEY)
+  const templates = result[STORAGE_KEY]
+  return [defaultPromptTemplate(), ...(Array.isArray(templates) ? templates : [])]
+}
+
+/**
+ * Stores the user's templates; the built-in template is skipped.
+ *
+ * @param templates - Templates to keep
+ */
+export async function savePromptTemplates(templates: PromptTemplate[]): Promise<void> {
+  await chrome.storage.local.set({
+    [STORAGE_KEY]: templates.filter((template) => template.id !== DEFAULT_PROMPT_ID)
+  })
+}
+
+/**
+ * Looks up a template by id, falling back to the built-in one when it
+ * was deleted.
+ *
+ * @param id - Template id, usually `settings.activePromptId`
+ * @returns Promise resolving to the template text
+ */
+export async function getPromptTemplate(id: string): Promise<string> {
+  if (id === DEFAULT_PROMPT_ID) return DEFAULT_PROMPT_TEMPLATE
+  const templates = await listPromptTemplates()
+  return templates.find((template) => template.id === id)?.system ?? DEFAULT_PROMPT_TEMPLATE
+}
+
+/**
+ * Replaces `{{variable}}` placeholders in a template.
+ * Unknown variables are left as written.
+ *
+ * @param template - Template text
+ * @param variables - Values for the known variables
+ * @returns The system prompt to send
+ *
+ * @example
+ * ```typescript
+ * renderPromptTemplate("Max {{maxTabsPerGroup}} tabs", { maxTabsPerGroup: "8", colors: "", existingGroups: "none" })
+ * // "Max 8 tabs"
+ * ```
+ */
+export function renderPromptTemplate(template: string, variables: PromptVariables): string {
+  return template.replace(VARIABLE_PATTERN, (match, name: string) =>
+    name in variables ? variables[name as keyof PromptVariables] : match
+  )
+}
+
+/**
+ * Validates a template before it is saved.
+ *
+ * The template must still ask for the `{"groups":[...]}` shape with
+ * `name`, `color` and `tabIds` that the response parser expects, and may
+ * only use known variables.
+ *
+ * @param template - Template to validate
+ * @returns Error message, or undefined if the template is valid
+ */
+export function validatePromptTemplate(template: PromptTemplate): string | undefined {
+  if (!template.name.trim()) {
+    return "Prompt template name is required"
+  }
+  const text = template.system
+  if (!text.trim()) {
+    return `Prompt "${template.name}" is empty`
+  }
+
+  for (const [, name] of text.matchAll(VARIABLE_PATTERN)) {
+    if (!(name in PROMPT_VARIABLES)) {
+      return `Prompt "${template.name}" uses unknown variable {{${name}}}`
+    }
+  }
+
+  const missing = ['"groups"', '"name"', '"color"', '"tabIds"'].filter((key) => !text.includes(key))
+  if (missing.length > 0) {
+    return `Prompt "${template.name}" must ask for JSON like {"groups":[{"name":…,"color":…,"tabIds":[…]}]} (missing ${missing.join(", ")})`
+  }
+  return undefined
+}
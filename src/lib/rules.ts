@@ -0,0 +1,175 @@
+import type { GroupRule, TabInfo, TabGroup, ExistingGroup } from "./types"
+
+/**
+ * Converts a URL glob (`*` matches anything, `?` one character) to a RegExp
+ */
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".")
+  return new RegExp(`^${escaped}$`, "i")
+}
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase()
+  } catch {
+    return ""
+  }
+}
+
+/**
+ * Checks whether a tab matches a single rule.
+ *
+ * Hostname rules match the host itself and any of its subdomains
+ * (`atlassian.net` matches `acme.atlassian.net`), ignoring the port.
+ * Invalid regex patterns never match.
+ *
+ * @param tab - Tab to test
+ * @param rule - Rule to test against
+ * @returns True if the rule is enabled and matches the tab
+ */
+export function matchesRule(tab: TabInfo, rule: GroupRule): boolean {
+  if (!rule.enabled || !rule.pattern.trim()) return false
+  const pattern = rule.pattern.trim()
+
+  try {
+    switch (rule.match) {
+      case "hostname": {
+        const host = hostnameOf(tab.url)
+        const target = pattern.toLowerCase()
+        return host === target || host.endsWith(`.${target}`)
+      }
+      case "url-glob":
+        return globToRegExp(pattern).test(tab.url)
+      case "url-regex":
+        return new RegExp(pattern, "i").test(tab.url)
+      case "title-regex":
+        return new RegExp(pattern, "i").test(tab.title)
+    }
+  } catch {
+    // Invalid pattern - treat as no match
+  }
+  return false
+}
+
+/**
+ * Checks whether a tab is on a site the user excluded from organizing.
+ * Sites match like hostname rules, subdomains included.
+ *
+ * @param tab - Tab to test
+ * @param excludedSites - Hostnames from settings
+ * @returns True if the tab should be left alone
+ */
+export function isExcludedSite(tab: TabInfo, excludedSites: string[]): boolean {
+  const host = hostnameOf(tab.url)
+  if (!host) return false
+  return excludedSites.some((site) => {
+    const target = site.trim().toLowerCase()
+    return !!target && (host === target || host.endsWith(`.${target}`))
+  })
+}
+
+/**
+ * Validates a rule before it is saved.
+ *
+ * @param rule - Rule to validate
+ * @returns Error message, or undefined if the rule is valid
+ */
+export function validateRule(rule: GroupRule): string | undefined {
+  if (!rule.pattern.trim()) {
+    return "Rule pattern is required"
+  }
+  if (!rule.groupName.trim()) {
+    return "Rule group name is required"
+  }
+  if (rule.match === "url-regex" || rule.match === "title-regex") {
+    try {
+      new RegExp(rule.pattern)
+    } catch {
+      return `Invalid regular expression: ${rule.pattern}`
+    }
+  }
+  return undefined
+}
+
+/**
+ * Assigns tabs to groups using the user's rules.
+ *
+ * Rules are checked in order and the first match wins. Tabs assigned to
+ * the same group name by different rules share one group.
+ *
+ * @param tabs - Tabs to classify
+ * @param rules - Rules in priority order
+ * @returns Groups built from matching tabs, and the tabs no rule matched
+ *
+ * @example
+ * ```typescript
+ * const { groups, remaining } = applyRules(tabs, settings.rules)
+ * const aiGroups = await organizeTabsWithAI(remaining, settings)
+ * ```
+ */
+export function applyRules(
+  tabs: TabInfo[],
+  rules: GroupRule[]
+): { groups: TabGroup[]; remaining: TabInfo[] } {
+  const groups = new Map<string, TabGroup>()
+  const remaining: TabInfo[] = []
+
+  for (const tab of tabs) {
+    const rule = rules.find((r) => matchesRule(tab, r))
+    if (!rule) {
+      remaining.push(tab)
+      continue
+    }
+
+    const key = rule.groupName.trim().toLowerCase()
+    const group = groups.get(key)
+    if (group) {
+      group.tabIds.push(tab.id)
+    } else {
+      groups.set(key, { name: rule.groupName.trim(), color: rule.color, tabIds: [tab.id] })
+    }
+  }
+
+  return { groups: [...groups.values()], remaining }
+}
+
+/**
+ * Points rule groups at existing browser groups with the same name, so
+ * incremental organize adds to them instead of creating duplicates.
+ */
+export function attachExistingGroups(groups: TabGroup[], existingGroups: ExistingGroup[]): TabGroup[] {
+  return groups.map((group) => {
+    const existing = existingGroups.find(
+      (g) => g.name.trim().toLowerCase() === group.name.toLowerCase()
+    )
+    return existing ? { ...group, groupId: existing.groupId } : group
+  })
+}
+
+/**
+ * Merges rule-assigned groups with the AI's groups.
+ *
+ * An AI group with the same name as a rule group is folded into it, keeping
+ * the rule's color; all other AI groups are appended unchanged.
+ *
+ * @param ruleGroups - Groups produced by `applyRules`
+ * @param aiGroups - Groups returned by the AI
+ * @returns Combined list of groups
+ */
+export function mergeRuleGroups(ruleGroups: TabGroup[], aiGroups: TabGroup[]): TabGroup[] {
+  const merged = ruleGroups.map((group) => ({ ...group, tabIds: [...group.tabIds] }))
+
+  for (const aiGroup of aiGroups) {
+    const match = merged.find((g) => g.name.toLowerCase() === aiGroup.name.trim().toLowerCase())
+    if (match) {
+      match.tabIds.push(...aiGroup.tabIds)
+      match.groupId = match.groupId ?? aiGroup.groupId
+    } else {
+      merged.push(aiGroup)
+    }
+  }
+  return merged
+}
@@ -0,0 +1,154 @@
+import type { SavedSession, SessionGroup, TabGroup } from "./types"
+import { createTabGroups } from "./tabs"
+
+// Sessions live in local storage: a single session with a few dozen URLs
+// easily exceeds the 8 KB per-item quota of chrome.storage.sync
+const STORAGE_KEY = "saved_sessions"
+
+/**
+ * Retrieves all saved sessions, newest first.
+ *
+ * @returns Promise resolving to the saved sessions
+ */
+export async function listSessions(): Promise<SavedSession[]> {
+  const result = await chrome.storage.local.get(STORAGE_KEY)
+  const sessions = result[STORAGE_KEY]
+  return Array.isArray(sessions)
+    ? [...sessions].sort((a, b) => b.savedAt - a.savedAt)
+    : []
+}
+
+async function writeSessions(sessions: SavedSession[]): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEY]: sessions })
+}
+
+/**
+ * Saves the tab groups of a window as a named session.
+ *
+ * Records each group's name, color and tab URLs in tab strip order.
+ * Ungrouped tabs are not included. Saving under an existing name
+ * replaces that session.
+ *
+ * @param name - Session name
+ * @param windowId - Window to save (defaults to the current window)
+ * @returns Promise resolving to the saved session
+ *
+ * @example
+ * ```typescript
+ * const session = await saveSession("Sprint 42")
+ * console.log(`Saved ${session.groups.length} groups`)
+ * ```
+ */
+export async function saveSession(name: string, windowId?: number): Promise<SavedSession> {
+  const trimmed = name.trim()
+  if (!trimmed) {
+    throw new Error("Session name is required")
+  }
+
+  const targetWindowId = windowId ?? (await chrome.windows.getCurrent()).id
+  const tabs = await chrome.tabs.query({ windowId: targetWindowId })
+  const groups = await chrome.tabGroups.query({ windowId: targetWindowId })
+
+  const sessionGroups: SessionGroup[] = groups
+    .map((group) => ({
+      group,
+      tabs: tabs
+        .filter((tab) => tab.groupId === group.id && tab.url)
+        .sort((a, b) => a.index - b.index)
+    }))
+    .filter(({ tabs }) => tabs.length > 0)
+    .sort((a, b) => a.tabs[0].index - b.tabs[0].index)
+    .map(({ group, tabs }) => ({
+      name: group.title || "Untitled group",
+      color: group.color,
+      urls: tabs.map((tab) => tab.url!)
+    }))
+
+  if (sessionGroups.length === 0) {
+    throw new Error("No tab groups to save")
+  }
+
+  const session: SavedSession = {
+    id: crypto.randomUUID(),
+    name: trimmed,
+    savedAt: Date.now(),
+    groups: sessionGroups
+  }
+
+  const sessions = await listSessions()
+  await writeSessions([
+    session,
+    ...sessions.filter((s) => s.name.toLowerCase() !== trimmed.toLowerCase())
+  ])
+  return session
+}
+
+/**
+ * Deletes a saved session.
+ *
+ * @param id - Session id
+ * @returns Promise resolving to true if a session was removed
+ */
+export async function deleteSession(id: string): Promise<boolean> {
+  const sessions = await listSessions()
+  const remaining = sessions.filter((s) => s.id !== id)
+  await writeSessions(remaining)
+  return remaining.length !== sessions.length
+}
+
+/**
+ * Reopens a saved session in a new window with its groups recreated.
+ * URLs the browser refuses to open are skipped.
+ *
+ * @param id - Session id
+ * @returns Promise resolving to the number of tabs opened
+ *
+ * @example
+ * ```typescript
+ * const opened = await restoreSession(session.id)
+ * ```
+ */
+export async function restoreSession(id: string): Promise<number> {
+  const session = (await listSessions()).find((s) => s.id === id)
+  if (!session) {
+    throw new Error("Session not found")
+  }
+
+  const urls = session.groups.flatMap((group) => group.urls)
+  if (urls.length === 0) {
+    throw new Error("Session has no tabs")
+  }
+
+  // Tabs are opened one by one so each stays tied to its group; a URL the browser
+  // refuses (privileged or blocked schemes) is skipped instead of shifting the rest
+  const window = await chrome.windows.create({ focused: true })
+  const blankTabIds = (window?.tabs ?? [])
+    .map((tab) => tab.id)
+    .filter((tabId): tabId is number => tabId !== undefined)
+  const groups: TabGroup[] = []
+  for (const group of session.groups) {
+    const tabIds: number[] = []
+    for (const url of group.urls) {
+      try {
+        const tab = await chrome.tabs.create({ windowId: window?.id, url, active: false })
+        if (tab.id !== undefined) tabIds.push(tab.id)
+      } catch {
+        // Left out; the rest of the group still opens
+      }
+    }
+    if (tabIds.length > 0) {
+      groups.push({ name: group.name, color: group.color, tabIds })
+    }
+  }
+
+  const opened = groups.reduce((sum, group) => sum + group.tabIds.length, 0)
+  if (opened === 0) {
+    if (window?.id !== undefined) await chrome.windows.remove(window.id)
+    throw new Error("None of the session's tabs could be opened")
+  }
+  // The new tab page the window opened with
+  await chrome.tabs.remove(blankTabIds)
+
+  await createTabGroups(groups)
+  return opened
+}
@@ -2,13 +2,51 @@ import type { Settings } from "./types"
 
 const STORAGE_KEY = "tab_organizer_settings"
 
+// Lists that grow with use live in local storage: sync allows only 8 KB per
+// item, and one long rule list would stop every other setting from saving
+const LISTS_STORAGE_KEY = "tab_organizer_lists"
+
+type SettingsLists = Pick<Settings, "rules" | "modelPrices" | "excludedSites">
+
 const defaultSettings: Settings = {
+  organizeMode: "full",
+  organizer: "ai",
+  offlineFallback: true,
+  embeddingModel: "text-embedding-3-small",
+  clusterThreshold: 0.75,
+  windowScope: "current",
+  windowPlacement: "in-place",
+  provider: "openai",
   apiEndpoint: "https://openrouter.ai/api/v1",
   apiKey: "",
   model: "x-ai/grok-4.1-fast",
   debugMode: false,
   collapseGroups: true,
-  reasoningEffort: "off"
+  reviewBeforeApply: false,
+  reasoningEffort: "off",
+  batchSize: 100,
+  batchConcurrency: 2,
+  rules: [],
+  activePromptId: "default",
+  maxTabsPerGroup: 8,
+  modelPrices: [],
+  monthlyBudget: 0,
+  specialTabs: {
+    incognito: "leave",
+    pinned: "leave",
+    audible: "leave",
+    discarded: "include"
+  },
+  duplicateHandling: "review",
+  autoOrganize: "off",
+  autoOrganizeInterval: 60,
+  autoOrganizeThreshold: 15,
+  autoOrganizeWhenIdle: true,
+  autoPlaceNewTabs: false,
+  excludedSites: [],
+  groupOrder: "off",
+  looseTabsEdge: "start",
+  staleTabDays: 7
 }
 
 /**
@@ -32,6 +70,8 @@ export function isValidUrl(url: string): boolean {
  * - Non-empty API key
  * - Non-empty model name
  * 
+ * None of these apply when the offline organizer is selected.
+ * 
  * @param settings - Settings object to validate
  * @returns Validation result with valid flag and optional error message
  * 
@@ -44,6 +84,11 @@ export function isValidUrl(url: string): boolean {
  * ```
  */
 export function validateSettings(settings: Settings): { valid: boolean; error?: string } {
+  // The offline organizer never calls the API
+  if (settings.organizer === "offline") {
+    return { valid: true }
+  }
+
   if (!settings.apiEndpoint || !isValidUrl(settings.apiEndpoint)) {
     return { valid: false, error: "Invalid API endpoint URL" }
   }
@@ -55,14 +100,25 @@ export function validateSettings(settings: Settings): { valid: boolean; error?:
   if (!settings.model || settings.model.trim().length === 0) {
     return { valid: false, error: "Model name is required" }
   }
+
+  if (settings.organizer === "embeddings") {
+    if (settings.provider !== "openai") {
+      return { valid: false, error: "Embeddings need an OpenAI-compatible endpoint" }
+    }
+    if (!settings.embeddingModel || settings.embeddingModel.trim().length === 0) {
+      return { valid: false, error: "Embedding model name is required" }
+    }
+  }
   
   return { valid: true }
 }
 
 /**
- * Retrieves user settings from Chrome sync storage.
+ * Retrieves user settings from Chrome sync storage, with the rules, model
+ * prices and excluded sites from local storage.
  * 
  * Merges stored settings with defaults to ensure all properties are present.
+ * Lists saved to sync by earlier versions are used until they are next saved.
  * 
  * @returns Promise resolving to complete settings object
  * 
@@ -74,14 +130,25 @@ export function validateSettings(settings: Settings): { valid: boolean; error?:
  */
 export async function getSettings(): Promise<Settings> {
   const result = await chrome.storage.sync.get(STORAGE_KEY)
-  return { ...defaultSettings, ...result[STORAGE_KEY] }
+  const stored: Partial<Settings> = result[STORAGE_KEY] ?? {}
+  const localResult = await chrome.storage.local.get(LISTS_STORAGE_KEY)
+  const lists: Partial<SettingsLists> = localResult[LISTS_STORAGE_KEY] ?? {}
+  return {
+    ...defaultSettings,
+    ...stored,
+    ...lists,
+    // Nested so categories added later still get their defaults
+    specialTabs: { ...defaultSettings.specialTabs, ...stored.specialTabs }
+  }
 }
 
 /**
- * Saves user settings to Chrome sync storage.
+ * Saves user settings to Chrome sync storage, and the rules, model prices
+ * and excluded sites to local storage.
  * 
  * Merges with existing settings and trims whitespace from string values.
- * Settings sync across devices when user is signed into Chrome.
+ * Settings other than those lists sync across devices when user is signed
+ * into Chrome.
  * 
  * @param settings - Partial settings object to save (merged with existing)
  * @returns Promise that resolves when settings are saved
@@ -106,7 +173,12 @@ export async function saveSettings(settings: Partial<Settings>): Promise<void> {
     updated.model = updated.model.trim()
   }
   
+  const { rules, modelPrices, excludedSites, ...synced } = updated
+  const lists: SettingsLists = { rules, modelPrices, excludedSites }
+  await chrome.storage.local.set({
+    [LISTS_STORAGE_KEY]: lists
+  })
   await chrome.storage.sync.set({
-    [STORAGE_KEY]: updated
+    [STORAGE_KEY]: synced
   })
 }
@@ -0,0 +1,126 @@
+import type { StreamProgress } from "./types"
+
+/**
+ * Reads a server-sent events response and passes each `data:` payload,
+ * parsed as JSON, to `onEvent`. Stops at `[DONE]` or the end of the body.
+ *
+ * Aborting the fetch's signal rejects the pending read, so cancellation
+ * ends the stream immediately. A gap longer than `idleTimeoutMs` between
+ * chunks cancels the stream with a timeout error.
+ *
+ * @param response - Fetch response with a `text/event-stream` body
+ * @param onEvent - Called with every parsed event payload
+ * @param idleTimeoutMs - Maximum wait for the next chunk
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (data: unknown) => void,
+  idleTimeoutMs: number
+): Promise<void> {
+  if (!response.body) {
+    throw new Error("Empty streaming response")
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  const readChunk = () => {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        reader.cancel().catch(() => {})
+        reject(new Error(`Stream timeout: no data for ${idleTimeoutMs / 1000}s`))
+      }, idleTimeoutMs)
+    })
+    return Promise.race([reader.read(), timeout]).finally(() => clearTimeout(timeoutId))
+  }
+
+  while (true) {
+    const { done, value } = await readChunk()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split(/\r?\n/)
+    buffer = lines.pop() ?? ""
+
+    for (const line of lines) {
+      if (!line.startsWith("data:")) continue
+      const payload = line.slice(5).trim()
+      if (!payload) continue
+      if (payload === "[DONE]") return
+
+      try {
+        onEvent(JSON.parse(payload))
+      } catch {
+        // Keep-alive or malformed event - skip it
+      }
+    }
+  }
+}
+
+/**
+ * Tracks how much of a streamed `{"groups":[...]}` answer has arrived.
+ *
+ * Feed it the accumulated response text after each chunk; only the new
+ * part is scanned. Text shorter than before (a retried request) restarts
+ * the count.
+ *
+ * @returns Function taking the text so far and returning groups completed
+ *   and tab indices assigned in them
+ *
+ * @example
+ * ```typescript
+ * const track = createGroupTracker()
+ * track('{"groups":[{"name":"Docs","tabIds":[1,2]},{"na') // { groups: 1, tabs: 2 }
+ * ```
+ */
+export function createGroupTracker(): (text: string) => Pick<StreamProgress, "groups" | "tabs"> {
+  let pos = 0
+  let depth = 0
+  let inString = false
+  let escaped = false
+  let groupStart = -1
+  let groups = 0
+  let tabs = 0
+
+  return (text) => {
+    if (text.length < pos) {
+      pos = depth = groups = tabs = 0
+      inString = escaped = false
+      groupStart = -1
+    }
+
+    for (; pos < text.length; pos++) {
+      const char = text[pos]
+      if (inString) {
+        if (escaped) escaped = false
+        else if (char === "\\") escaped = true
+        else if (char === '"') inString = false
+        continue
+      }
+
+      if (char === '"') {
+        inString = true
+      } else if (char === "{") {
+        depth++
+        // Depth 1 is the root object, depth 2 a group inside "groups"
+        if (depth === 2) groupStart = pos
+      } else if (char === "}") {
+        if (depth === 2 && groupStart !== -1) {
+          groups++
+          try {
+            const group = JSON.parse(text.slice(groupStart, pos + 1))
+            tabs += Array.isArray(group?.tabIds) ? group.tabIds.length : 0
+          } catch {
+            // Partial or odd group - count it without tabs
+          }
+          groupStart = -1
+        }
+        depth = Math.max(0, depth - 1)
+      }
+    }
+
+    return { groups, tabs }
+  }
+}
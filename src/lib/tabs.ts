@@ -1,35 +1,222 @@
-import type { TabInfo, TabGroup } from "./types"
+import type {
+  TabInfo,
+  TabGroup,
+  GroupSnapshot,
+  SnapshotGroup,
+  ExistingGroup,
+  WindowScope,
+  WindowPlacement,
+  GroupOrder,
+  LooseTabsEdge,
+  SpecialTabKind,
+  SpecialTabHandling
+} from "./types"
 
 /**
- * Retrieves all tabs from the current browser window.
+ * Retrieves all tabs from the current browser window, or from every
+ * normal window when the scope is "all".
  * 
  * Filters out tabs without IDs or URLs to ensure data completeness.
+ * Each tab reports its window, the group it currently belongs to (-1 if ungrouped)
+ * and its pinned/audible/incognito/discarded flags.
  * 
+ * @param scope - Which windows to read tabs from (defaults to the current window)
  * @returns Promise resolving to array of tab information
  * 
  * @example
  * ```typescript
- * const tabs = await getAllTabs()
+ * const tabs = await getAllTabs("all")
  * console.log(`Found ${tabs.length} tabs`)
  * ```
  */
-export async function getAllTabs(): Promise<TabInfo[]> {
-  const tabs = await chrome.tabs.query({ currentWindow: true })
+export async function getAllTabs(scope: WindowScope = "current"): Promise<TabInfo[]> {
+  const tabs = await chrome.tabs.query(
+    scope === "all" ? { windowType: "normal" } : { currentWindow: true }
+  )
+  return toTabInfos(tabs)
+}
+
+/**
+ * Retrieves the tabs of one window, in the same form as `getAllTabs`.
+ * 
+ * @param windowId - Window to read
+ * @returns Promise resolving to array of tab information
+ */
+export async function getWindowTabs(windowId: number): Promise<TabInfo[]> {
+  return toTabInfos(await chrome.tabs.query({ windowId }))
+}
+
+function toTabInfos(tabs: chrome.tabs.Tab[]): TabInfo[] {
   return tabs
     .filter((tab) => tab.id !== undefined && tab.url)
     .map((tab) => ({
       id: tab.id!,
       title: tab.title || "Untitled",
-      url: tab.url || ""
+      url: tab.url || "",
+      groupId: tab.groupId ?? -1,
+      windowId: tab.windowId,
+      pinned: tab.pinned,
+      audible: tab.audible,
+      incognito: tab.incognito,
+      discarded: tab.discarded
     }))
 }
 
+// Checked in this order; incognito first so privacy handling always wins
+const SPECIAL_TAB_KINDS: SpecialTabKind[] = ["incognito", "pinned", "audible", "discarded"]
+
+const SPECIAL_TAB_GROUPS: Record<SpecialTabKind, { name: string; color: TabGroup["color"] }> = {
+  incognito: { name: "🕶️ Incognito", color: "purple" },
+  pinned: { name: "📌 Pinned", color: "grey" },
+  audible: { name: "🔊 Playing", color: "orange" },
+  discarded: { name: "💤 Sleeping", color: "grey" }
+}
+
+/**
+ * Splits tabs by how their special state (incognito, pinned, audible,
+ * discarded) should be handled.
+ * 
+ * A tab with several flags is handled by the first kind whose setting is not
+ * "include", so an incognito tab set to "leave" is never sent to the AI even
+ * if it is also pinned.
+ * 
+ * @param tabs - Tabs from `getAllTabs`
+ * @param handling - Per-kind handling from settings
+ * @returns Tabs to organize normally, tabs to leave untouched, and
+ *   dedicated groups for kinds set to "separate"
+ * 
+ * @example
+ * ```typescript
+ * const { organize, dedicated } = partitionSpecialTabs(tabs, settings.specialTabs)
+ * ```
+ */
+export function partitionSpecialTabs(
+  tabs: TabInfo[],
+  handling: Record<SpecialTabKind, SpecialTabHandling>
+): { organize: TabInfo[]; leave: TabInfo[]; dedicated: TabGroup[] } {
+  const organize: TabInfo[] = []
+  const leave: TabInfo[] = []
+  const dedicated = new Map<SpecialTabKind, TabGroup>()
+
+  for (const tab of tabs) {
+    const kind = SPECIAL_TAB_KINDS.find((k) => tab[k] && handling[k] !== "include")
+    if (!kind) {
+      organize.push(tab)
+    } else if (handling[kind] === "leave") {
+      leave.push(tab)
+    } else {
+      const group = dedicated.get(kind) ?? { ...SPECIAL_TAB_GROUPS[kind], tabIds: [] }
+      group.tabIds.push(tab.id)
+      dedicated.set(kind, group)
+    }
+  }
+
+  return { organize, leave, dedicated: [...dedicated.values()] }
+}
+
 /**
- * Removes all tab groups from the current window.
+ * Resolves the ids of the windows covered by a scope.
+ * 
+ * @param scope - "current" for the focused window, "all" for every normal window
+ * @returns Promise resolving to the window ids
+ */
+export async function getScopeWindowIds(scope: WindowScope = "current"): Promise<number[]> {
+  if (scope === "all") {
+    const windows = await chrome.windows.getAll({ windowTypes: ["normal"] })
+    return windows
+      .map((window) => window.id)
+      .filter((id): id is number => id !== undefined)
+  }
+  const currentWindow = await chrome.windows.getCurrent()
+  return currentWindow.id !== undefined ? [currentWindow.id] : []
+}
+
+/**
+ * Returns the ids of the active tab in each of the given windows.
+ */
+export async function getActiveTabIds(windowIds: number[]): Promise<number[]> {
+  const ids: number[] = []
+  for (const windowId of windowIds) {
+    const [activeTab] = await chrome.tabs.query({ active: true, windowId })
+    if (activeTab?.id !== undefined) ids.push(activeTab.id)
+  }
+  return ids
+}
+
+/**
+ * Collapses every group in the given windows except the one holding the
+ * window's active tab, which is expanded.
+ * 
+ * @param windowIds - Windows to tidy
+ * @returns Promise resolving to the number of groups collapsed
+ */
+export async function collapseInactiveGroups(windowIds: number[]): Promise<number> {
+  let collapsed = 0
+  for (const windowId of windowIds) {
+    const [activeTab] = await chrome.tabs.query({ active: true, windowId })
+    const groups = await chrome.tabGroups.query({ windowId })
+    for (const group of groups) {
+      const isActive = group.id === activeTab?.groupId
+      if (group.collapsed === !isActive) continue
+      try {
+        await chrome.tabGroups.update(group.id, { collapsed: !isActive })
+        if (!isActive) collapsed++
+      } catch {
+        // Group was removed in the meantime
+      }
+    }
+  }
+  return collapsed
+}
+
+/**
+ * Describes the tab groups that already exist among the given tabs.
+ * 
+ * Used by incremental organize so the AI can place ungrouped tabs into
+ * groups the user already has. Groups are returned in tab strip order.
+ * 
+ * @param tabs - Tabs from `getAllTabs`, including their current group ids
+ * @returns Promise resolving to the existing groups with their member tabs
+ * 
+ * @example
+ * ```typescript
+ * const tabs = await getAllTabs()
+ * const groups = await getExistingGroups(tabs)
+ * console.log(groups.map(g => `${g.name}: ${g.tabs.length}`))
+ * ```
+ */
+export async function getExistingGroups(tabs: TabInfo[]): Promise<ExistingGroup[]> {
+  const groups: ExistingGroup[] = []
+  const seen = new Set<number>()
+
+  for (const tab of tabs) {
+    const groupId = tab.groupId ?? -1
+    if (groupId === -1 || seen.has(groupId)) continue
+    seen.add(groupId)
+
+    try {
+      const group = await chrome.tabGroups.get(groupId)
+      groups.push({
+        groupId,
+        name: group.title || "Untitled group",
+        color: group.color,
+        tabs: tabs.filter((t) => t.groupId === groupId)
+      })
+    } catch {
+      // Group was removed while we were reading it
+    }
+  }
+  return groups
+}
+
+/**
+ * Removes all tab groups from a window.
  * 
  * Ungroups all tabs in parallel when possible, falls back to sequential
  * ungrouping if some tabs have been closed during the operation.
  * 
+ * @param windowId - Window to ungroup (defaults to the current window)
+ * @param keepTabIds - Tabs to leave in their groups
  * @returns Promise that resolves when all tabs are ungrouped
  * 
  * @example
@@ -38,9 +225,9 @@ export async function getAllTabs(): Promise<TabInfo[]> {
  * console.log('All groups removed')
  * ```
  */
-export async function ungroupAllTabs(): Promise<void> {
-  const currentWindow = await chrome.windows.getCurrent()
-  const groups = await chrome.tabGroups.query({ windowId: currentWindow.id })
+export async function ungroupAllTabs(windowId?: number, keepTabIds: number[] = []): Promise<void> {
+  const targetWindowId = windowId ?? (await chrome.windows.getCurrent()).id
+  const groups = await chrome.tabGroups.query({ windowId: targetWindowId })
 
   // Collect all tab IDs from all groups in parallel
   const tabsPerGroup = await Promise.all(
@@ -49,7 +236,7 @@ export async function ungroupAllTabs(): Promise<void> {
   const tabIds = tabsPerGroup
     .flat()
     .map(tab => tab.id)
-    .filter((id): id is number => id !== undefined)
+    .filter((id): id is number => id !== undefined && !keepTabIds.includes(id))
 
   // Ungroup all tabs at once, ignoring errors from closed tabs
   if (tabIds.length > 0) {
@@ -68,17 +255,117 @@ export async function ungroupAllTabs(): Promise<void> {
   }
 }
 
+/**
+ * Captures the tab group layout of one or more windows so it can be restored later.
+ * 
+ * Records each group's window, title, color, collapsed state and member tabs
+ * in tab strip order. Ungrouped tabs are not recorded.
+ * 
+ * @param windowIds - Windows to capture (defaults to the current window)
+ * @returns Promise resolving to the captured snapshot
+ * 
+ * @example
+ * ```typescript
+ * const snapshot = await captureGroupSnapshot()
+ * console.log(`Captured ${snapshot.groups.length} groups`)
+ * ```
+ */
+export async function captureGroupSnapshot(windowIds?: number[]): Promise<GroupSnapshot> {
+  const targetWindowIds = windowIds ?? (await getScopeWindowIds("current"))
+
+  const snapshotGroups: SnapshotGroup[] = []
+  for (const windowId of targetWindowIds) {
+    const groups = await chrome.tabGroups.query({ windowId })
+    for (const group of groups) {
+      const tabs = await chrome.tabs.query({ groupId: group.id })
+      const ordered = tabs
+        .filter((tab) => tab.id !== undefined)
+        .sort((a, b) => a.index - b.index)
+      if (ordered.length === 0) continue
+
+      snapshotGroups.push({
+        windowId,
+        title: group.title || "",
+        color: group.color,
+        collapsed: group.collapsed,
+        index: ordered[0].index,
+        tabIds: ordered.map((tab) => tab.id!)
+      })
+    }
+  }
+
+  return {
+    windowIds: targetWindowIds,
+    capturedAt: Date.now(),
+    groups: snapshotGroups.sort((a, b) => a.index - b.index)
+  }
+}
+
+/**
+ * Restores a group layout previously captured with `captureGroupSnapshot`.
+ * 
+ * Removes the current groups of the captured windows, moves each group's
+ * tabs back to their recorded window and position and recreates the group.
+ * Tabs that have been closed since the snapshot are skipped, groups with no
+ * remaining tabs are dropped, and groups whose window has closed are
+ * restored into the current window.
+ * 
+ * @param snapshot - Snapshot to restore
+ * @returns Promise resolving to the number of groups restored
+ * 
+ * @example
+ * ```typescript
+ * const restored = await restoreGroupSnapshot(snapshot)
+ * console.log(`Restored ${restored} groups`)
+ * ```
+ */
+export async function restoreGroupSnapshot(snapshot: GroupSnapshot): Promise<number> {
+  const openWindowIds = new Set(await getScopeWindowIds("all"))
+  const fallbackWindowId = (await chrome.windows.getCurrent()).id!
+
+  for (const windowId of snapshot.windowIds) {
+    if (openWindowIds.has(windowId)) {
+      await ungroupAllTabs(windowId)
+    }
+  }
+
+  let restored = 0
+  for (const group of snapshot.groups) {
+    const validTabIds = await filterExistingTabs(group.tabIds)
+    if (validTabIds.length === 0) continue
+
+    // The original window may be gone - fall back to the current one
+    const windowId = openWindowIds.has(group.windowId) ? group.windowId : fallbackWindowId
+
+    try {
+      const tabIds = validTabIds as [number, ...number[]]
+      await chrome.tabs.move(tabIds, { windowId, index: group.index })
+      const groupId = await chrome.tabs.group({ tabIds, createProperties: { windowId } })
+      await chrome.tabGroups.update(groupId, {
+        title: group.title,
+        color: group.color,
+        collapsed: group.collapsed
+      })
+      restored++
+    } catch {
+      // Tabs closed between check and group - continue with remaining groups
+    }
+  }
+  return restored
+}
+
 export interface CreateGroupsOptions {
   collapseOthers?: boolean
   activeTabId?: number
+  activeTabIds?: number[] // Active tab of each window when organizing several windows
+  placement?: WindowPlacement
 }
 
-async function filterExistingTabs(tabIds: number[]): Promise<number[]> {
-  const existing: number[] = []
+async function getExistingTabs(tabIds: number[]): Promise<chrome.tabs.Tab[]> {
+  const existing: chrome.tabs.Tab[] = []
   for (const tabId of tabIds) {
     try {
-      await chrome.tabs.get(tabId)
-      existing.push(tabId)
+      existing.push(await chrome.tabs.get(tabId))
     } catch {
       // Tab no longer exists
     }
@@ -86,18 +373,76 @@ async function filterExistingTabs(tabIds: number[]): Promise<number[]> {
   return existing
 }
 
+async function filterExistingTabs(tabIds: number[]): Promise<number[]> {
+  const tabs = await getExistingTabs(tabIds)
+  return tabs.map((tab) => tab.id!)
+}
+
+/**
+ * Splits a group's tabs into per-window batches. In place, each window gets
+ * its own copy of the group; consolidated, every tab goes to the window that
+ * already holds most of them.
+ */
+function splitByWindow(
+  tabs: chrome.tabs.Tab[],
+  placement: WindowPlacement
+): { windowId: number; tabIds: number[] }[] {
+  const byWindow = new Map<number, number[]>()
+  for (const tab of tabs) {
+    const ids = byWindow.get(tab.windowId) ?? []
+    ids.push(tab.id!)
+    byWindow.set(tab.windowId, ids)
+  }
+
+  if (placement === "consolidate" && byWindow.size > 1) {
+    const [targetWindowId] = [...byWindow.entries()].sort((a, b) => b[1].length - a[1].length)[0]
+    return [{ windowId: targetWindowId, tabIds: tabs.map((tab) => tab.id!) }]
+  }
+
+  return [...byWindow.entries()].map(([windowId, tabIds]) => ({ windowId, tabIds }))
+}
+
+async function addToExistingGroup(
+  groupId: number,
+  tabIds: number[],
+  collapseOthers: boolean,
+  activeTabIds: Set<number>
+): Promise<boolean> {
+  try {
+    await chrome.tabs.group({ groupId, tabIds: tabIds as [number, ...number[]] })
+    if (collapseOthers) {
+      // The active tab may already have been a member before this run
+      const members = await chrome.tabs.query({ groupId })
+      const containsActiveTab = members.some((tab) => tab.id !== undefined && activeTabIds.has(tab.id))
+      await chrome.tabGroups.update(groupId, { collapsed: !containsActiveTab })
+    }
+    return true
+  } catch {
+    // Group no longer exists - caller creates a fresh one
+    return false
+  }
+}
+
 /**
  * Creates browser tab groups from the provided group definitions.
  * 
  * Validates that tabs still exist before grouping and handles closed tabs gracefully.
+ * Groups with a `groupId` add their tabs to that existing group and keep its
+ * title and color; if the group no longer exists a new one is created instead.
+ * Groups whose tabs span several windows are either created once per window
+ * or consolidated into a single window, depending on `placement`.
  * Optionally collapses all groups except the one containing the active tab.
  * 
  * @param groups - Array of group definitions with names, colors, and tab IDs
  * @param options - Optional configuration:
  *   - collapseOthers: If true, collapse all groups except active tab's group
  *   - activeTabId: ID of the currently active tab
+ *   - activeTabIds: IDs of the active tab in each organized window
+ *   - placement: "in-place" (default) or "consolidate" for multi-window groups
  * 
- * @returns Promise that resolves when all groups are created
+ * @returns Promise resolving to the browser ids of the groups created or
+ *   added to, in the order of `groups` (a group split across windows adds one
+ *   id per window)
  * 
  * @example
  * ```typescript
@@ -110,31 +455,140 @@ async function filterExistingTabs(tabIds: number[]): Promise<number[]> {
 export async function createTabGroups(
   groups: TabGroup[],
   options: CreateGroupsOptions = {}
-): Promise<void> {
-  const { collapseOthers = false, activeTabId } = options
+): Promise<number[]> {
+  const { collapseOthers = false, activeTabId, activeTabIds = [], placement = "in-place" } = options
+  const activeIds = new Set(activeTabId !== undefined ? [activeTabId, ...activeTabIds] : activeTabIds)
+  const groupIds: number[] = []
 
   for (const group of groups) {
     // Filter out tabs that may have been closed
-    const validTabIds = await filterExistingTabs(group.tabIds)
-    if (validTabIds.length === 0) continue
+    const validTabs = await getExistingTabs(group.tabIds)
+    if (validTabs.length === 0) continue
 
-    try {
-      const groupId = await chrome.tabs.group({ tabIds: validTabIds })
+    if (group.groupId !== undefined) {
+      const validTabIds = validTabs.map((tab) => tab.id!)
+      const added = await addToExistingGroup(group.groupId, validTabIds, collapseOthers, activeIds)
+      if (added) {
+        groupIds.push(group.groupId)
+        continue
+      }
+    }
 
-      // Determine if this group should be collapsed
-      // If collapseOthers is enabled, collapse all groups except the one containing the active tab
-      const containsActiveTab = activeTabId !== undefined && validTabIds.includes(activeTabId)
-      const shouldCollapse = collapseOthers && !containsActiveTab
+    for (const { windowId, tabIds } of splitByWindow(validTabs, placement)) {
+      try {
+        const groupTabIds = tabIds as [number, ...number[]]
+        const groupId = await chrome.tabs.group({
+          tabIds: groupTabIds,
+          createProperties: { windowId }
+        })
 
-      await chrome.tabGroups.update(groupId, {
-        title: group.name,
-        color: group.color,
-        collapsed: shouldCollapse
-      })
-    } catch {
-      // Group creation failed (tabs may have been closed between check and group)
-      // Continue with remaining groups
+        // Determine if this group should be collapsed
+        // If collapseOthers is enabled, collapse all groups except the one containing the active tab
+        const containsActiveTab = tabIds.some((id) => activeIds.has(id))
+        const shouldCollapse = collapseOthers && !containsActiveTab
+
+        await chrome.tabGroups.update(groupId, {
+          title: group.name,
+          color: group.color,
+          collapsed: shouldCollapse
+        })
+        groupIds.push(groupId)
+      } catch {
+        // Group creation failed (tabs may have been closed between check and group)
+        // Continue with remaining groups
+      }
+    }
+  }
+  return groupIds
+}
+
+// Group names usually start with an emoji; compare by the words after it
+function sortableName(title: string | undefined): string {
+  return (title ?? "").replace(/^[^\p{L}\p{N}]+/u, "").toLowerCase()
+}
+
+function compareGroups(
+  a: chrome.tabGroups.TabGroup,
+  b: chrome.tabGroups.TabGroup,
+  order: Exclude<GroupOrder, "off">,
+  members: Map<number, chrome.tabs.Tab[]>,
+  modelOrder: Map<number, number>
+): number {
+  switch (order) {
+    case "size":
+      return (members.get(b.id)?.length ?? 0) - (members.get(a.id)?.length ?? 0)
+    case "alphabetical":
+      return sortableName(a.title).localeCompare(sortableName(b.title))
+    case "recent": {
+      const lastUsed = (id: number) => Math.max(0, ...(members.get(id) ?? []).map((tab) => tab.lastAccessed ?? 0))
+      return lastUsed(b.id) - lastUsed(a.id)
     }
+    case "model":
+      return (modelOrder.get(a.id) ?? Infinity) - (modelOrder.get(b.id) ?? Infinity)
   }
 }
 
+/**
+ * Rearranges the tab strip of each window so groups sit side by side in the
+ * given order, with the ungrouped tabs gathered at one edge.
+ * 
+ * Pinned tabs always stay first since the browser keeps them there; "start"
+ * puts the ungrouped tabs right after them. Ties keep the current strip order,
+ * and groups missing from `modelOrder` follow the ones in it.
+ * 
+ * @param windowIds - Windows to rearrange
+ * @param order - How to sort the groups
+ * @param looseTabsEdge - Where the ungrouped tabs go
+ * @param modelOrder - Group ids in the order the organizer returned them, for "model"
+ * @returns Promise that resolves when every window is rearranged
+ * 
+ * @example
+ * ```typescript
+ * const groupIds = await createTabGroups(groups)
+ * await orderTabStrip([windowId], "size", "end", groupIds)
+ * ```
+ */
+export async function orderTabStrip(
+  windowIds: number[],
+  order: GroupOrder,
+  looseTabsEdge: LooseTabsEdge,
+  modelOrder: number[] = []
+): Promise<void> {
+  if (order === "off") return
+  const modelIndex = new Map<number, number>()
+  modelOrder.forEach((groupId, index) => {
+    if (!modelIndex.has(groupId)) modelIndex.set(groupId, index)
+  })
+
+  for (const windowId of windowIds) {
+    const tabs = await chrome.tabs.query({ windowId })
+    const members = new Map<number, chrome.tabs.Tab[]>()
+    for (const tab of tabs) {
+      if (tab.groupId === -1) continue
+      members.set(tab.groupId, [...(members.get(tab.groupId) ?? []), tab])
+    }
+
+    // Start from strip order so the sort is stable against what the user sees
+    const groups = (await chrome.tabGroups.query({ windowId }))
+      .filter((group) => members.has(group.id))
+      .sort((a, b) => members.get(a.id)![0].index - members.get(b.id)![0].index)
+      .sort((a, b) => compareGroups(a, b, order, members, modelIndex))
+
+    try {
+      if (looseTabsEdge === "start") {
+        // Appending each group in turn leaves the ungrouped tabs in front
+        for (const group of groups) {
+          await chrome.tabGroups.move(group.id, { index: -1 })
+        }
+      } else {
+        // Inserting right after the pinned tabs in reverse pushes the ungrouped tabs to the end
+        const pinnedCount = tabs.filter((tab) => tab.pinned).length
+        for (const group of [...groups].reverse()) {
+          await chrome.tabGroups.move(group.id, { index: pinnedCount })
+        }
+      }
+    } catch {
+      // Tabs or groups changed while moving - keep whatever order was reached
+    }
+  }
+}
@@ -1,26 +1,135 @@
+// "openai" covers every OpenAI-compatible endpoint (OpenRouter, Ollama, LM Studio, ...)
+export type ApiProvider = "openai" | "anthropic"
+
+export type OrganizeMode = "full" | "incremental"
+
+// ai: ask the configured API, embeddings: cluster embedding vectors and only name groups with the AI,
+// offline: cluster locally by site and title keywords
+export type OrganizerEngine = "ai" | "embeddings" | "offline"
+
+export type RuleMatchType = "hostname" | "url-glob" | "url-regex" | "title-regex"
+
+// Deterministic grouping rule applied before the AI sees any tabs
+export interface GroupRule {
+  id: string
+  match: RuleMatchType
+  pattern: string
+  groupName: string
+  color: TabGroup["color"]
+  enabled: boolean
+}
+
+export type SpecialTabKind = "incognito" | "pinned" | "audible" | "discarded"
+// include: organize normally, leave: don't touch, separate: put into a dedicated group
+export type SpecialTabHandling = "include" | "leave" | "separate"
+
+// off: ignore, close: close extra copies, group: collect copies in one group, review: list them in the popup
+export type DuplicateHandling = "off" | "close" | "group" | "review"
+
+// schedule: every autoOrganizeInterval minutes, threshold: when ungrouped tabs exceed autoOrganizeThreshold
+export type AutoOrganizeMode = "off" | "schedule" | "threshold"
+
+// Order of groups in the tab strip after organizing; model keeps the order the organizer returned
+export type GroupOrder = "off" | "model" | "size" | "alphabetical" | "recent"
+// Where ungrouped tabs go; pinned tabs always stay first, the browser keeps them there
+export type LooseTabsEdge = "start" | "end"
+
+export type WindowScope = "current" | "all"
+export type WindowPlacement = "in-place" | "consolidate"
+
 export interface Settings {
+  organizeMode: OrganizeMode // "incremental" keeps existing groups and only places ungrouped tabs
+  organizer: OrganizerEngine
+  offlineFallback: boolean // Use the offline organizer when the API is unreachable; API settings must still be valid
+  windowScope: WindowScope // Organize the current window or every normal window
+  windowPlacement: WindowPlacement // Multi-window: group within each window or move each group into one window
+  provider: ApiProvider
   apiEndpoint: string
   apiKey: string
   model: string
+  embeddingModel: string // Used by the "embeddings" organizer
+  clusterThreshold: number // Cosine similarity (0-1) needed to cluster tabs together
   debugMode: boolean
   collapseGroups: boolean
+  reviewBeforeApply: boolean // Hold AI proposals for approval in the popup
   reasoningEffort: "off" | "low" | "medium" | "high" // OpenAI-style for thinking models
+  batchSize: number // Tabs per AI request; larger sets are split into batches
+  batchConcurrency: number // Batches sent at the same time
+  rules: GroupRule[]
+  activePromptId: string // System prompt template; "default" is the built-in one
+  maxTabsPerGroup: number // Fills {{maxTabsPerGroup}} in the prompt
+  modelPrices: ModelPrice[] // For cost estimates; models without a price are tracked as tokens only
+  monthlyBudget: number // USD per calendar month, 0 for no limit
+  specialTabs: Record<SpecialTabKind, SpecialTabHandling> // "include" for incognito sends those tabs to the AI
+  duplicateHandling: DuplicateHandling
+  autoOrganize: AutoOrganizeMode
+  autoOrganizeInterval: number // Minutes between scheduled runs
+  autoOrganizeThreshold: number // Ungrouped tabs that trigger a run
+  autoOrganizeWhenIdle: boolean // Hold automatic runs until the user is idle
+  autoPlaceNewTabs: boolean // Put each newly loaded tab into a group instead of asking
+  excludedSites: string[] // Hostnames never organized; subdomains included
+  groupOrder: GroupOrder
+  looseTabsEdge: LooseTabsEdge
+  staleTabDays: number // Days without a visit before a tab is offered for archiving, 0 to never flag
+}
+
+// Named system prompt; templates are kept in local storage, not in Settings
+export interface PromptTemplate {
+  id: string
+  name: string
+  system: string // May contain {{variables}}
+}
+
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number // Includes reasoning tokens
+  reasoningTokens: number
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  model: string
+  inputPerMillion: number
+  outputPerMillion: number
+}
+
+// Tokens one organize run spent on one model
+export interface UsageRecord extends TokenUsage {
+  at: number
+  model: string
+  cost?: number // USD, when the model had a price
 }
 
 export interface TabInfo {
   id: number
   title: string
   url: string
+  groupId?: number // Browser group id, -1 (TAB_GROUP_ID_NONE) when ungrouped
+  windowId?: number
+  pinned?: boolean
+  audible?: boolean
+  incognito?: boolean
+  discarded?: boolean
 }
 
 export interface TabGroup {
   name: string
   color: chrome.tabGroups.ColorEnum
   tabIds: number[]
+  groupId?: number // Set when tabs should be added to an existing browser group
+}
+
+// A browser group that already exists, described to the AI in incremental mode
+export interface ExistingGroup {
+  groupId: number
+  name: string
+  color: TabGroup["color"]
+  tabs: TabInfo[]
 }
 
 export interface AIResponse {
-  groups: TabGroup[]
+  // existingGroup is the index of an existing group (incremental mode only)
+  groups: (TabGroup & { existingGroup?: number })[]
 }
 
 export type Status =
@@ -29,17 +138,145 @@ export type Status =
   | { type: "success"; message: string }
   | { type: "error"; message: string; details?: string }
 
+// What started an organize run
+export type RunTrigger = "popup" | "notification" | "schedule" | "shortcut" | "context-menu" | "reapply"
+
+export type RunOutcome = "completed" | "error" | "cancelled" | "rejected"
+
+// Time spent in one phase of a run; awaiting-approval is the user's review time
+export interface PhaseTiming {
+  phase: TaskPhase | "awaiting-approval"
+  ms: number
+}
+
+// One organize run as kept in the run history
+export interface RunRecord {
+  id: string
+  trigger: RunTrigger
+  startedAt: number
+  endedAt: number
+  organizer: OrganizerEngine
+  model?: string // Unset for the offline organizer
+  tabCount: number // Tabs in scope when the run started
+  groups: SessionGroup[] // Result grouping, by URL so it can be re-applied later
+  phases: PhaseTiming[]
+  outcome: RunOutcome
+  error?: string
+  offline?: boolean
+  usage?: TokenUsage
+  cost?: number
+}
+
 // Background task state machine
-export type TaskPhase = "fetching-tabs" | "ungrouping" | "calling-ai" | "creating-groups"
+export type TaskPhase =
+  | "fetching-tabs"
+  | "deduplicating"
+  | "ungrouping"
+  | "embedding"
+  | "calling-ai"
+  | "clustering"
+  | "creating-groups"
+
+// A page open in more than one tab
+export interface DuplicateSet {
+  url: string // Normalized URL
+  title: string
+  exact: boolean // All copies have the identical URL
+  keepTabId: number
+  duplicateTabIds: number[]
+}
 
 export interface TaskResult {
   groupCount: number
+  offline?: boolean // Grouped by the offline organizer
+  usage?: TokenUsage // Tokens spent on API calls during the run
+  cost?: number // Estimated USD for those tokens
+  duplicateCount?: number
+  duplicates?: DuplicateSet[] // Left open for the user to confirm in the popup
+  stale?: StaleGroup[] // Offered for archiving in the popup
+  restoredGroupCount?: number // Set when the result comes from an undo
   debug?: string[]
 }
 
+// Tabs of one group (or the ungrouped tabs) nobody has visited for settings.staleTabDays
+export interface StaleGroup {
+  name: string // "Ungrouped" for tabs outside any group
+  color: TabGroup["color"]
+  tabIds: number[]
+  wholeGroup: boolean // Every tab of the group is stale
+  lastAccessed: number // Most recent visit to any of the tabs
+}
+
+// Named, reopenable copy of a window's groups
+export interface SessionGroup {
+  name: string
+  color: TabGroup["color"]
+  urls: string[] // In tab strip order
+}
+
+export interface SavedSession {
+  id: string
+  name: string
+  savedAt: number
+  groups: SessionGroup[]
+}
+
+// Stale tabs closed into bookmarks; each group got its own dated folder
+export interface TabArchive {
+  id: string
+  archivedAt: number
+  groups: (SessionGroup & { folderId: string })[]
+}
+
+// Group layout captured before organize so it can be undone
+export interface SnapshotGroup {
+  windowId: number
+  title: string
+  color: TabGroup["color"]
+  collapsed: boolean
+  index: number // Strip index of the group's first tab
+  tabIds: number[] // In tab strip order
+}
+
+export interface GroupSnapshot {
+  windowIds: number[] // Windows whose groups were captured
+  capturedAt: number
+  groups: SnapshotGroup[]
+}
+
+// Progress of a run that was split into several AI requests
+export interface BatchProgress {
+  completed: number
+  total: number
+}
+
+// Live counts from a streamed AI reply
+export interface StreamProgress {
+  groups: number // Groups fully received
+  tabs: number // Tabs assigned in those groups
+  tokens: number // Streamed chunks, roughly one token each
+}
+
 export type TaskState =
   | { status: "idle" }
-  | { status: "running"; phase: TaskPhase; startedAt: number }
+  | {
+      status: "running"
+      phase: TaskPhase
+      startedAt: number
+      batches?: BatchProgress
+      stream?: StreamProgress
+    }
+  | {
+      status: "awaiting-approval"
+      proposal: TabGroup[]
+      tabTitles: Record<number, string> // For displaying proposal members
+      duplicates?: DuplicateSet[] // Closed once the proposal is approved
+      usage?: TokenUsage // Carried into the result once approved
+      cost?: number
+      selectedOnly?: boolean // Only some tabs were organized; other groups stay as they are
+      proposedAt: number
+      debug?: string[]
+    }
   | { status: "completed"; result: TaskResult; completedAt: number }
   | { status: "cancelled"; cancelledAt: number }
   | { status: "error"; error: string; failedAt: number }
@@ -0,0 +1,65 @@
+import type { GroupSnapshot } from "./types"
+
+export const UNDO_STACK_KEY = "undo_stack"
+
+// Number of organize runs that can be stepped back through
+const MAX_SNAPSHOTS = 5
+
+/**
+ * Retrieves the stack of saved group snapshots, most recent last.
+ *
+ * @returns Promise resolving to the snapshot stack (empty if none saved)
+ */
+export async function getUndoStack(): Promise<GroupSnapshot[]> {
+  const result = await chrome.storage.local.get(UNDO_STACK_KEY)
+  const stack = result[UNDO_STACK_KEY]
+  return Array.isArray(stack) ? stack : []
+}
+
+/**
+ * Pushes a snapshot onto the undo stack, dropping the oldest entries
+ * once the stack exceeds its size limit.
+ *
+ * @param snapshot - Group layout captured before an organize run
+ * @returns Promise that resolves when the stack is saved
+ *
+ * @example
+ * ```typescript
+ * await pushSnapshot(await captureGroupSnapshot())
+ * ```
+ */
+export async function pushSnapshot(snapshot: GroupSnapshot): Promise<void> {
+  const stack = await getUndoStack()
+  stack.push(snapshot)
+  await chrome.storage.local.set({
+    [UNDO_STACK_KEY]: stack.slice(-MAX_SNAPSHOTS)
+  })
+}
+
+/**
+ * Returns the most recent snapshot without removing it.
+ *
+ * @returns Promise resolving to the snapshot, or undefined if the stack is empty
+ */
+export async function peekSnapshot(): Promise<GroupSnapshot | undefined> {
+  const stack = await getUndoStack()
+  return stack[stack.length - 1]
+}
+
+/**
+ * Removes and returns the most recent snapshot from the undo stack.
+ *
+ * @returns Promise resolving to the snapshot, or undefined if the stack is empty
+ *
+ * @example
+ * ```typescript
+ * const snapshot = await popSnapshot()
+ * if (snapshot) await restoreGroupSnapshot(snapshot)
+ * ```
+ */
+export async function popSnapshot(): Promise<GroupSnapshot | undefined> {
+  const stack = await getUndoStack()
+  const snapshot = stack.pop()
+  await chrome.storage.local.set({ [UNDO_STACK_KEY]: stack })
+  return snapshot
+}
@@ -0,0 +1,170 @@
+import type { Settings, TokenUsage, ModelPrice, UsageRecord } from "./types"
+
+// History lives in local storage; it grows with every run
+const STORAGE_KEY = "usage_history"
+// Records older than this are dropped on write
+const HISTORY_DAYS = 400
+
+export const EMPTY_USAGE: TokenUsage = { promptTokens: 0, completionTokens: 0, reasoningTokens: 0 }
+
+/**
+ * Adds two token counts together.
+ */
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    reasoningTokens: a.reasoningTokens + b.reasoningTokens
+  }
+}
+
+export function totalTokens(usage: TokenUsage): number {
+  return usage.promptTokens + usage.completionTokens
+}
+
+/**
+ * Estimates the cost of a request from the user's price table.
+ *
+ * Reasoning tokens are billed as output and are already part of
+ * `completionTokens`, so they are not added again.
+ *
+ * @param usage - Token counts
+ * @param model - Model the tokens were spent on
+ * @param prices - Per-model prices in USD per million tokens
+ * @returns Cost in USD, or undefined when the model has no price
+ */
+export function estimateCost(usage: TokenUsage, model: string, prices: ModelPrice[]): number | undefined {
+  const price = prices.find((p) => p.model.trim() === model)
+  if (!price) return undefined
+  return (usage.promptTokens * price.inputPerMillion + usage.completionTokens * price.outputPerMillion) / 1_000_000
+}
+
+/**
+ * Retrieves the usage history, oldest first.
+ *
+ * @returns Promise resolving to all recorded runs
+ */
+export async function getUsageHistory(): Promise<UsageRecord[]> {
+  const result = await chrome.storage.local.get(STORAGE_KEY)
+  const history = result[STORAGE_KEY]
+  return Array.isArray(history) ? history : []
+}
+
+/**
+ * Appends one record per model used in a run, pricing each with the
+ * current price table.
+ *
+ * @param usageByModel - Tokens spent per model during the run
+ * @param prices - Price table from settings
+ * @returns Promise resolving to the run's total tokens and estimated cost
+ *   (undefined if any model used has no price)
+ */
+export async function recordUsage(
+  usageByModel: Map<string, TokenUsage>,
+  prices: ModelPrice[]
+): Promise<{ usage: TokenUsage; cost?: number }> {
+  const at = Date.now()
+  const records: UsageRecord[] = [...usageByModel.entries()].map(([model, usage]) => ({
+    at,
+    model,
+    ...usage,
+    cost: estimateCost(usage, model, prices)
+  }))
+
+  const usage = records.reduce<TokenUsage>((sum, record) => addUsage(sum, record), EMPTY_USAGE)
+  const cost = records.every((record) => record.cost !== undefined)
+    ? records.reduce((sum, record) => sum + (record.cost ?? 0), 0)
+    : undefined
+
+  if (records.length > 0) {
+    const cutoff = at - HISTORY_DAYS * 24 * 60 * 60 * 1000
+    const history = (await getUsageHistory()).filter((record) => record.at >= cutoff)
+    await chrome.storage.local.set({ [STORAGE_KEY]: [...history, ...records] })
+  }
+  return { usage, cost }
+}
+
+export async function clearUsageHistory(): Promise<void> {
+  await chrome.storage.local.remove(STORAGE_KEY)
+}
+
+interface UsageTotals extends TokenUsage {
+  runs: number
+  cost: number
+  unpriced: boolean // Some records had no price
+}
+
+function emptyTotals(): UsageTotals {
+  return { ...EMPTY_USAGE, runs: 0, cost: 0, unpriced: false }
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): UsageTotals {
+  return {
+    ...addUsage(totals, record),
+    runs: totals.runs + 1,
+    cost: totals.cost + (record.cost ?? 0),
+    unpriced: totals.unpriced || record.cost === undefined
+  }
+}
+
+// Local date as YYYY-MM-DD
+function dayKey(at: number): string {
+  const date = new Date(at)
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Totals usage per local day and per model.
+ *
+ * @param history - Records from `getUsageHistory`
+ * @returns Totals keyed by day (newest first) and by model (most tokens first)
+ */
+export function summarizeUsage(history: UsageRecord[]): {
+  byDay: [string, UsageTotals][]
+  byModel: [string, UsageTotals][]
+} {
+  const byDay = new Map<string, UsageTotals>()
+  const byModel = new Map<string, UsageTotals>()
+  for (const record of history) {
+    const day = dayKey(record.at)
+    byDay.set(day, addRecord(byDay.get(day) ?? emptyTotals(), record))
+    byModel.set(record.model, addRecord(byModel.get(record.model) ?? emptyTotals(), record))
+  }
+  return {
+    byDay: [...byDay.entries()].sort(([a], [b]) => b.localeCompare(a)),
+    byModel: [...byModel.entries()].sort(([, a], [, b]) => totalTokens(b) - totalTokens(a))
+  }
+}
+
+/**
+ * Sums the estimated cost of runs in the current calendar month.
+ *
+ * @param history - Records from `getUsageHistory`
+ * @returns Spend in USD; unpriced runs count as zero
+ */
+export function monthToDateCost(history: UsageRecord[]): number {
+  const now = new Date()
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).getTime()
+  return history
+    .filter((record) => record.at >= monthStart)
+    .reduce((sum, record) => sum + (record.cost ?? 0), 0)
+}
+
+/**
+ * Checks the monthly budget before a run that calls the API.
+ *
+ * @param settings - User configuration with `monthlyBudget` (0 = no limit)
+ * @returns Promise resolving to an error message when the budget is used up
+ */
+export async function checkBudget(settings: Settings): Promise<string | undefined> {
+  if (!settings.monthlyBudget || settings.monthlyBudget <= 0 || settings.organizer === "offline") {
+    return undefined
+  }
+  const spent = monthToDateCost(await getUsageHistory())
+  if (spent >= settings.monthlyBudget) {
+    return `Monthly budget of $${settings.monthlyBudget.toFixed(2)} reached ($${spent.toFixed(2)} spent)`
+  }
+  return undefined
+}
@@ -1,8 +1,16 @@
 import { useEffect, useState, useMemo } from "react"
 import { getSettings, saveSettings, validateSettings, isValidUrl } from "~/lib/storage"
-import type { Settings } from "~/lib/types"
+import type { Settings, SpecialTabKind, SpecialTabHandling, PromptTemplate } from "~/lib/types"
 import { Button } from "~/components/ui/button"
 import { Switch } from "~/components/ui/switch"
+import { RulesEditor } from "~/components/RulesEditor"
+import { PromptEditor } from "~/components/PromptEditor"
+import { UsagePanel } from "~/components/UsagePanel"
+import { HistoryPanel } from "~/components/HistoryPanel"
+import { ShortcutsPanel } from "~/components/ShortcutsPanel"
+import { ExcludedSitesEditor } from "~/components/ExcludedSitesEditor"
+import { validateRule } from "~/lib/rules"
+import { defaultPromptTemplate, listPromptTemplates, savePromptTemplates, validatePromptTemplate } from "~/lib/prompts"
 import "~/style.css"
 
 // API Provider Presets
@@ -10,36 +18,55 @@ const API_PRESETS = {
   openai: {
     name: "OpenAI",
     apiEndpoint: "https://api.openai.com/v1",
-    model: "gpt-4o"
+    model: "gpt-4o",
+    provider: "openai"
+  },
+  claude: {
+    name: "Anthropic (native)",
+    apiEndpoint: "https://api.anthropic.com/v1",
+    model: "claude-sonnet-4-5",
+    provider: "anthropic"
   },
   anthropic: {
     name: "Anthropic (via OpenRouter)",
     apiEndpoint: "https://openrouter.ai/api/v1",
-    model: "anthropic/claude-sonnet-4.5"
+    model: "anthropic/claude-sonnet-4.5",
+    provider: "openai"
   },
   xai: {
     name: "X.AI (via OpenRouter)",
     apiEndpoint: "https://openrouter.ai/api/v1",
-    model: "x-ai/grok-4.1-fast"
+    model: "x-ai/grok-4.1-fast",
+    provider: "openai"
   },
   google: {
     name: "Google (via OpenRouter)",
     apiEndpoint: "https://openrouter.ai/api/v1",
-    model: "google/gemini-2.0-pro-exp-02:free"
+    model: "google/gemini-2.0-pro-exp-02:free",
+    provider: "openai"
   },
   ollama: {
     name: "Ollama (Local)",
     apiEndpoint: "http://localhost:11434/v1",
-    model: "llama3.2"
+    model: "llama3.2",
+    provider: "openai"
   },
   lmstudio: {
     name: "LM Studio (Local)",
     apiEndpoint: "http://localhost:1234/v1",
-    model: "local-model"
+    model: "local-model",
+    provider: "openai"
   }
 } as const
 
 type PresetKey = keyof typeof API_PRESETS
+
+const SPECIAL_TAB_LABELS: Record<SpecialTabKind, { label: string; description: string }> = {
+  incognito: { label: "Incognito tabs", description: "Organizing sends their titles and URLs to your API endpoint" },
+  pinned: { label: "Pinned tabs", description: "Grouping a pinned tab unpins it" },
+  audible: { label: "Tabs playing audio", description: "Avoid moving calls and videos mid-playback" },
+  discarded: { label: "Sleeping tabs", description: "Tabs the browser has unloaded to save memory" }
+}
 // Model-only presets (does not change API endpoint)
 const MODEL_PRESETS = {
   // OpenAI GPT-5 series (latest, Jan 2026)
@@ -70,6 +97,10 @@ const MODEL_PRESETS = {
   // Anthropic Claude
   "Anthropic • Claude 3.7 Sonnet": "anthropic/claude-3-7-sonnet",
   "Anthropic • Claude Sonnet 4.5": "anthropic/claude-sonnet-4.5",
+  // Anthropic Claude (native API)
+  "Claude • Opus 4.1": "claude-opus-4-1",
+  "Claude • Sonnet 4.5": "claude-sonnet-4-5",
+  "Claude • Haiku 4.5": "claude-haiku-4-5",
   // X.AI
   "X.AI • Grok 4.1 Fast": "x-ai/grok-4.1-fast",
   "X.AI • Grok 2": "x-ai/grok-2",
@@ -80,13 +111,46 @@ const MODEL_PRESETS = {
 
 function Options() {
   const [settings, setSettings] = useState<Settings>({
+    organizeMode: "full",
+    organizer: "ai",
+    offlineFallback: true,
+    embeddingModel: "text-embedding-3-small",
+    clusterThreshold: 0.75,
+    windowScope: "current",
+    windowPlacement: "in-place",
+    provider: "openai",
     apiEndpoint: "https://api.openai.com/v1",
     apiKey: "",
     model: "gpt-4o",
     debugMode: false,
     collapseGroups: false,
-    reasoningEffort: "off"
+    reviewBeforeApply: false,
+    reasoningEffort: "off",
+    batchSize: 100,
+    batchConcurrency: 2,
+    rules: [],
+    activePromptId: "default",
+    maxTabsPerGroup: 8,
+    modelPrices: [],
+    monthlyBudget: 0,
+    autoOrganize: "off",
+    autoOrganizeInterval: 60,
+    autoOrganizeThreshold: 15,
+    autoOrganizeWhenIdle: true,
+    autoPlaceNewTabs: false,
+    excludedSites: [],
+    groupOrder: "off",
+    looseTabsEdge: "start",
+    staleTabDays: 7,
+    specialTabs: {
+      incognito: "leave",
+      pinned: "leave",
+      audible: "leave",
+      discarded: "include"
+    },
+    duplicateHandling: "review"
   })
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([defaultPromptTemplate()])
   const [showKey, setShowKey] = useState(false)
   const [saved, setSaved] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -99,6 +163,7 @@ function Options() {
 
   useEffect(() => {
     getSettings().then(setSettings)
+    listPromptTemplates().then(setPromptTemplates)
   }, [])
 
   const handleSave = async () => {
@@ -112,8 +177,30 @@ function Options() {
       setError(validation.error || "Invalid settings")
       return
     }
+
+    for (const rule of settings.rules) {
+      const ruleError = validateRule(rule)
+      if (ruleError) {
+        setError(ruleError)
+        return
+      }
+    }
+
+    if (settings.modelPrices.some((price) => !price.model.trim())) {
+      setError("Every price needs a model name")
+      return
+    }
+
+    for (const template of promptTemplates) {
+      const templateError = validatePromptTemplate(template)
+      if (templateError) {
+        setError(templateError)
+        return
+      }
+    }
     
     try {
+      await savePromptTemplates(promptTemplates)
       await saveSettings(settings)
       setSaved(true)
       setTimeout(() => setSaved(false), 2000)
@@ -159,6 +246,7 @@ function Options() {
     const preset = API_PRESETS[presetKey]
     setSettings((prev) => ({
       ...prev,
+      provider: preset.provider,
       apiEndpoint: preset.apiEndpoint,
       model: preset.model
     }))
@@ -181,6 +269,7 @@ function Options() {
       return selectedProvider
     }
     const endpoint = settings.apiEndpoint.toLowerCase()
+    if (settings.provider === 'anthropic' || endpoint.includes('anthropic.com')) return 'claude'
     if (endpoint.includes('openai.com')) return 'openai'
     if (endpoint.includes('openrouter')) {
       // Check model prefix for OpenRouter
@@ -191,7 +280,7 @@ function Options() {
     if (endpoint.includes('localhost:11434') || endpoint.includes('ollama')) return 'ollama'
     if (endpoint.includes('localhost:1234')) return 'lmstudio'
     return ''
-  }, [selectedProvider, settings.apiEndpoint, settings.model])
+  }, [selectedProvider, settings.provider, settings.apiEndpoint, settings.model])
 
   // Filter model presets based on selected provider
   const filteredModelPresets = useMemo(() => {
@@ -207,6 +296,7 @@ function Options() {
       if (
         (currentProvider === 'openai' && labelLower.startsWith('openai')) ||
         (currentProvider === 'anthropic' && labelLower.startsWith('anthropic')) ||
+        (currentProvider === 'claude' && labelLower.startsWith('claude')) ||
         (currentProvider === 'xai' && labelLower.startsWith('x.ai')) ||
         (currentProvider === 'google' && labelLower.startsWith('google')) ||
         (currentProvider === 'ollama' && labelLower.startsWith('ollama')) ||
@@ -299,6 +389,23 @@ function Options() {
             </p>
           </div>
 
+          <div>
+            <label className="block text-sm font-semibold mb-2 text-zinc-200">API Format</label>
+            <select
+              value={settings.provider}
+              onChange={(e) => updateSetting("provider", e.target.value as Settings["provider"])}
+              className="w-full h-11 px-3 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-sm 
+                         focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                         transition-all duration-200 shadow-sm hover:bg-zinc-800"
+            >
+              <option value="openai">OpenAI-compatible (/chat/completions)</option>
+              <option value="anthropic">Anthropic Messages (/v1/messages)</option>
+            </select>
+            <p className="text-xs text-zinc-500 mt-1.5">
+              Use OpenAI-compatible for OpenAI, OpenRouter, Ollama and LM Studio.
+            </p>
+          </div>
+
           <div>
             <label className="block text-sm font-semibold mb-2 text-zinc-200">
               API Endpoint
@@ -410,7 +517,218 @@ function Options() {
               <option value="high">High</option>
             </select>
             <p className="text-xs text-zinc-500 mt-1.5">
-              For thinking models (o1, o3, etc.). Ignored by other models.
+              For thinking models (o1, o3, etc.). With the Anthropic API this sets the extended thinking budget.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold mb-2 text-zinc-200">Large Windows</label>
+            <div className="flex gap-2">
+              <select
+                value={settings.batchSize}
+                onChange={(e) => updateSetting("batchSize", Number(e.target.value))}
+                aria-label="Tabs per request"
+                className="flex-1 h-11 px-3 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-sm 
+                           focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                           transition-all duration-200 shadow-sm hover:bg-zinc-800"
+              >
+                <option value={50}>50 tabs per request</option>
+                <option value={100}>100 tabs per request</option>
+                <option value={200}>200 tabs per request</option>
+                <option value={400}>400 tabs per request</option>
+              </select>
+              <select
+                value={settings.batchConcurrency}
+                onChange={(e) => updateSetting("batchConcurrency", Number(e.target.value))}
+                aria-label="Requests at a time"
+                className="flex-1 h-11 px-3 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-sm 
+                           focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                           transition-all duration-200 shadow-sm hover:bg-zinc-800"
+              >
+                <option value={1}>One at a time</option>
+                <option value={2}>2 at a time</option>
+                <option value={4}>4 at a time</option>
+              </select>
+            </div>
+            <p className="text-xs text-zinc-500 mt-1.5">
+              More tabs than this are split into several requests and similar group names are merged. Lower it for small-context or local models.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold mb-2 text-zinc-200">Organizer</label>
+            <select
+              value={settings.organizer}
+              onChange={(e) => updateSetting("organizer", e.target.value as Settings["organizer"])}
+              className="w-full h-11 px-3 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-sm 
+                         focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                         transition-all duration-200 shadow-sm hover:bg-zinc-800"
+            >
+              <option value="ai">AI — use the API above</option>
+              <option value="embeddings">Embeddings — cluster locally, AI only names groups</option>
+              <option value="offline">Offline — group by site and title keywords</option>
+            </select>
+            <p className="text-xs text-zinc-500 mt-1.5">
+              Offline grouping runs locally with no network access and needs no API key.
+            </p>
+          </div>
+
+          {settings.organizer === "embeddings" && (
+            <div>
+              <label className="block text-sm font-semibold mb-2 text-zinc-200">Embeddings</label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={settings.embeddingModel}
+                  onChange={(e) => updateSetting("embeddingModel", e.target.value)}
+                  placeholder="text-embedding-3-small"
+                  aria-label="Embedding model"
+                  className="flex-1 min-w-0 h-11 px-3 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-sm font-mono
+                             focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                             transition-all duration-200 shadow-sm hover:bg-zinc-800"
+                />
+                <select
+                  value={settings.clusterThreshold}
+                  onChange={(e) => updateSetting("clusterThreshold", Number(e.target.value))}
+                  aria-label="Cluster similarity threshold"
+                  className="w-40 h-11 px-3 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-sm 
+                             focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                             transition-all duration-200 shadow-sm hover:bg-zinc-800"
+                >
+                  <option value={0.65}>Loose (0.65)</option>
+                  <option value={0.7}>Broad (0.70)</option>
+                  <option value={0.75}>Balanced (0.75)</option>
+                  <option value={0.8}>Tight (0.80)</option>
+                  <option value={0.85}>Strict (0.85)</option>
+                </select>
+              </div>
+              <p className="text-xs text-zinc-500 mt-1.5">
+                Needs an OpenAI-compatible /embeddings endpoint. Embeddings are cached per URL, so repeat runs are nearly free.
+              </p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-semibold mb-2 text-zinc-200">Organize Mode</label>
+            <select
+              value={settings.organizeMode}
+              onChange={(e) => updateSetting("organizeMode", e.target.value as Settings["organizeMode"])}
+              className="w-full h-11 px-3 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-sm 
+                         focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                         transition-all duration-200 shadow-sm hover:bg-zinc-800"
+            >
+              <option value="full">Full — regroup every tab</option>
+              <option value="incremental">Incremental — keep existing groups</option>
+            </select>
+            <p className="text-xs text-zinc-500 mt-1.5">
+              Incremental only places ungrouped tabs, adding them to existing groups where they fit.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold mb-2 text-zinc-200">Duplicate Tabs</label>
+            <select
+              value={settings.duplicateHandling}
+              onChange={(e) => updateSetting("duplicateHandling", e.target.value as Settings["duplicateHandling"])}
+              className="w-full h-11 px-3 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-sm 
+                         focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                         transition-all duration-200 shadow-sm hover:bg-zinc-800"
+            >
+              <option value="review">List in popup to confirm</option>
+              <option value="close">Close automatically</option>
+              <option value="group">Collect into a Duplicates group</option>
+              <option value="off">Ignore</option>
+            </select>
+            <p className="text-xs text-zinc-500 mt-1.5">
+              Pages open more than once, ignoring #fragments and tracking parameters like utm_source.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold mb-2 text-zinc-200">Stale Tabs</label>
+            <select
+              value={settings.staleTabDays}
+              onChange={(e) => updateSetting("staleTabDays", Number(e.target.value))}
+              className="w-full h-11 px-3 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-sm
+                         focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                         transition-all duration-200 shadow-sm hover:bg-zinc-800"
+            >
+              <option value={0}>Don't flag</option>
+              <option value={1}>Not visited for a day</option>
+              <option value={3}>Not visited for 3 days</option>
+              <option value={7}>Not visited for a week</option>
+              <option value={14}>Not visited for 2 weeks</option>
+              <option value={30}>Not visited for a month</option>
+            </select>
+            <p className="text-xs text-zinc-500 mt-1.5">
+              After organizing, the popup offers to bookmark stale tabs into a dated folder per group and close them.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold mb-2 text-zinc-200">Windows</label>
+            <div className="flex gap-2">
+              <select
+                value={settings.windowScope}
+                onChange={(e) => updateSetting("windowScope", e.target.value as Settings["windowScope"])}
+                aria-label="Window scope"
+                className="flex-1 h-11 px-3 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-sm 
+                           focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                           transition-all duration-200 shadow-sm hover:bg-zinc-800"
+              >
+                <option value="current">Current window</option>
+                <option value="all">All windows</option>
+              </select>
+              <select
+                value={settings.windowPlacement}
+                onChange={(e) => updateSetting("windowPlacement", e.target.value as Settings["windowPlacement"])}
+                disabled={settings.windowScope !== "all"}
+                aria-label="Group placement across windows"
+                className="flex-1 h-11 px-3 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-sm 
+                           focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                           transition-all duration-200 shadow-sm hover:bg-zinc-800 disabled:opacity-50"
+              >
+                <option value="in-place">Group in place</option>
+                <option value="consolidate">Consolidate groups</option>
+              </select>
+            </div>
+            <p className="text-xs text-zinc-500 mt-1.5">
+              With all windows, groups either stay in each window or are moved into one window per group.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold mb-2 text-zinc-200">Tab Strip Order</label>
+            <div className="flex gap-2">
+              <select
+                value={settings.groupOrder}
+                onChange={(e) => updateSetting("groupOrder", e.target.value as Settings["groupOrder"])}
+                aria-label="Group order"
+                className="flex-1 h-11 px-3 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-sm
+                           focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                           transition-all duration-200 shadow-sm hover:bg-zinc-800"
+              >
+                <option value="off">Leave groups where they are</option>
+                <option value="model">As the organizer returned them</option>
+                <option value="size">Largest group first</option>
+                <option value="alphabetical">Alphabetical</option>
+                <option value="recent">Most recently used first</option>
+              </select>
+              <select
+                value={settings.looseTabsEdge}
+                onChange={(e) => updateSetting("looseTabsEdge", e.target.value as Settings["looseTabsEdge"])}
+                disabled={settings.groupOrder === "off"}
+                aria-label="Ungrouped tab position"
+                className="flex-1 h-11 px-3 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-sm
+                           focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                           transition-all duration-200 shadow-sm hover:bg-zinc-800 disabled:opacity-50"
+              >
+                <option value="start">Ungrouped tabs first</option>
+                <option value="end">Ungrouped tabs last</option>
+              </select>
+            </div>
+            <p className="text-xs text-zinc-500 mt-1.5">
+              Moves groups next to each other after organizing. Pinned tabs always stay at the front.
             </p>
           </div>
 
@@ -431,6 +749,38 @@ function Options() {
               </div>
             </div>
 
+            <div className="flex items-start gap-3 p-3 rounded-lg hover:bg-zinc-800/30 transition-colors">
+              <Switch
+                id="reviewBeforeApply"
+                checked={settings.reviewBeforeApply}
+                onCheckedChange={(checked) => updateSetting("reviewBeforeApply", checked)}
+              />
+              <div className="flex flex-col gap-0.5">
+                <label htmlFor="reviewBeforeApply" className="text-sm font-medium cursor-pointer text-zinc-200">
+                  Review groups before applying
+                </label>
+                <p className="text-xs text-zinc-500">
+                  Edit or reject the proposed groups in the popup before your tabs are touched
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-start gap-3 p-3 rounded-lg hover:bg-zinc-800/30 transition-colors">
+              <Switch
+                id="offlineFallback"
+                checked={settings.offlineFallback}
+                onCheckedChange={(checked) => updateSetting("offlineFallback", checked)}
+              />
+              <div className="flex flex-col gap-0.5">
+                <label htmlFor="offlineFallback" className="text-sm font-medium cursor-pointer text-zinc-200">
+                  Fall back to offline grouping
+                </label>
+                <p className="text-xs text-zinc-500">
+                  Group tabs locally when the API can't be reached after retrying
+                </p>
+              </div>
+            </div>
+
             <div className="flex items-center gap-3 p-3 rounded-lg hover:bg-zinc-800/30 transition-colors">
               <Switch
                 id="debug"
@@ -444,6 +794,239 @@ function Options() {
           </div>
         </div>
 
+        {/* Auto-Organize Card */}
+        <div className="bg-zinc-900/40 backdrop-blur-sm border border-zinc-800/60 rounded-xl p-6 shadow-xl space-y-3">
+          <div>
+            <h2 className="text-sm font-semibold text-zinc-200">Auto-Organize</h2>
+            <p className="text-xs text-zinc-500 mt-1">
+              Tidy groups in the background with your current settings. Automatic runs are recorded in the run history.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={settings.autoOrganize}
+              onChange={(e) => updateSetting("autoOrganize", e.target.value as Settings["autoOrganize"])}
+              aria-label="Auto-organize"
+              className="flex-1 h-11 px-3 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-sm 
+                         focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                         transition-all duration-200 shadow-sm hover:bg-zinc-800"
+            >
+              <option value="off">Off</option>
+              <option value="schedule">On a schedule</option>
+              <option value="threshold">When ungrouped tabs pile up</option>
+            </select>
+            {settings.autoOrganize === "schedule" && (
+              <select
+                value={settings.autoOrganizeInterval}
+                onChange={(e) => updateSetting("autoOrganizeInterval", Number(e.target.value))}
+                aria-label="Minutes between runs"
+                className="flex-1 h-11 px-3 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-sm 
+                           focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                           transition-all duration-200 shadow-sm hover:bg-zinc-800"
+              >
+                <option value={15}>Every 15 minutes</option>
+                <option value={30}>Every 30 minutes</option>
+                <option value={60}>Every hour</option>
+                <option value={120}>Every 2 hours</option>
+                <option value={240}>Every 4 hours</option>
+              </select>
+            )}
+            {settings.autoOrganize === "threshold" && (
+              <select
+                value={settings.autoOrganizeThreshold}
+                onChange={(e) => updateSetting("autoOrganizeThreshold", Number(e.target.value))}
+                aria-label="Ungrouped tabs before a run"
+                className="flex-1 h-11 px-3 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-sm 
+                           focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                           transition-all duration-200 shadow-sm hover:bg-zinc-800"
+              >
+                <option value={5}>More than 5 ungrouped</option>
+                <option value={10}>More than 10 ungrouped</option>
+                <option value={15}>More than 15 ungrouped</option>
+                <option value={25}>More than 25 ungrouped</option>
+                <option value={50}>More than 50 ungrouped</option>
+              </select>
+            )}
+          </div>
+          {settings.autoOrganize !== "off" && (
+            <div className="flex items-start gap-3 p-3 rounded-lg hover:bg-zinc-800/30 transition-colors">
+              <Switch
+                id="autoOrganizeWhenIdle"
+                checked={settings.autoOrganizeWhenIdle}
+                onCheckedChange={(checked) => updateSetting("autoOrganizeWhenIdle", checked)}
+              />
+              <div className="flex flex-col gap-0.5">
+                <label htmlFor="autoOrganizeWhenIdle" className="text-sm font-medium cursor-pointer text-zinc-200">
+                  Only while I'm away
+                </label>
+                <p className="text-xs text-zinc-500">
+                  Wait until there's been no keyboard or mouse input for two minutes, so tabs don't move while you work
+                </p>
+              </div>
+            </div>
+          )}
+          <div className="flex items-start gap-3 p-3 rounded-lg hover:bg-zinc-800/30 transition-colors">
+            <Switch
+              id="autoPlaceNewTabs"
+              checked={settings.autoPlaceNewTabs}
+              onCheckedChange={(checked) => updateSetting("autoPlaceNewTabs", checked)}
+            />
+            <div className="flex flex-col gap-0.5">
+              <label htmlFor="autoPlaceNewTabs" className="text-sm font-medium cursor-pointer text-zinc-200">
+                Auto-place new tabs
+              </label>
+              <p className="text-xs text-zinc-500">
+                Add each new tab to the best existing group once it loads, instead of asking with a notification
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Shortcuts Card */}
+        <div className="bg-zinc-900/40 backdrop-blur-sm border border-zinc-800/60 rounded-xl p-6 shadow-xl space-y-3">
+          <div>
+            <h2 className="text-sm font-semibold text-zinc-200">Keyboard Shortcuts</h2>
+            <p className="text-xs text-zinc-500 mt-1">
+              Run common actions without opening the popup. Bindings are set in the browser's shortcut settings.
+            </p>
+          </div>
+          <ShortcutsPanel />
+        </div>
+
+        {/* Special Tabs Card */}
+        <div className="bg-zinc-900/40 backdrop-blur-sm border border-zinc-800/60 rounded-xl p-6 shadow-xl space-y-3">
+          <div>
+            <h2 className="text-sm font-semibold text-zinc-200">Special Tabs</h2>
+            <p className="text-xs text-zinc-500 mt-1">
+              Choose whether these tabs are organized, left where they are, or collected into their own group.
+            </p>
+          </div>
+          {(Object.keys(SPECIAL_TAB_LABELS) as SpecialTabKind[]).map((kind) => (
+            <div key={kind} className="flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-zinc-200">{SPECIAL_TAB_LABELS[kind].label}</p>
+                <p className="text-xs text-zinc-500">{SPECIAL_TAB_LABELS[kind].description}</p>
+              </div>
+              <select
+                value={settings.specialTabs[kind]}
+                onChange={(e) =>
+                  updateSetting("specialTabs", {
+                    ...settings.specialTabs,
+                    [kind]: e.target.value as SpecialTabHandling
+                  })
+                }
+                aria-label={`${SPECIAL_TAB_LABELS[kind].label} handling`}
+                className="w-40 h-9 px-2.5 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-xs 
+                           focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                           transition-all duration-200"
+              >
+                <option value="include">{kind === "incognito" ? "Organize (sends to AI)" : "Organize"}</option>
+                <option value="leave">Leave in place</option>
+                <option value="separate">Own group</option>
+              </select>
+            </div>
+          ))}
+        </div>
+
+        {/* Grouping Rules Card */}
+        <div className="bg-zinc-900/40 backdrop-blur-sm border border-zinc-800/60 rounded-xl p-6 shadow-xl space-y-3">
+          <div>
+            <h2 className="text-sm font-semibold text-zinc-200">Grouping Rules</h2>
+            <p className="text-xs text-zinc-500 mt-1">
+              Tabs matching a rule always go to its group and are never sent to the AI. First match wins.
+            </p>
+          </div>
+          <RulesEditor
+            rules={settings.rules}
+            onChange={(rules) => updateSetting("rules", rules)}
+          />
+          <div className="pt-2">
+            <h3 className="text-xs font-medium text-zinc-400 mb-2">Excluded sites</h3>
+            <ExcludedSitesEditor
+              sites={settings.excludedSites}
+              onChange={(sites) => updateSetting("excludedSites", sites)}
+            />
+            <p className="text-xs text-zinc-500 mt-1.5">
+              Tabs on these sites and their subdomains are never sent to the AI or regrouped.
+            </p>
+          </div>
+        </div>
+
+        {/* System Prompt Card */}
+        <div className="bg-zinc-900/40 backdrop-blur-sm border border-zinc-800/60 rounded-xl p-6 shadow-xl space-y-3">
+          <div>
+            <h2 className="text-sm font-semibold text-zinc-200">System Prompt</h2>
+            <p className="text-xs text-zinc-500 mt-1">
+              Tell the AI about your own conventions, like grouping by customer or never mixing personal and work tabs.
+            </p>
+          </div>
+          <PromptEditor
+            templates={promptTemplates}
+            activeId={settings.activePromptId}
+            onChange={setPromptTemplates}
+            onSelect={(id) => updateSetting("activePromptId", id)}
+          />
+          <div className="flex items-center justify-between gap-3 pt-1">
+            <label htmlFor="maxTabsPerGroup" className="text-sm font-medium text-zinc-200">
+              Max tabs per group
+            </label>
+            <select
+              id="maxTabsPerGroup"
+              value={settings.maxTabsPerGroup}
+              onChange={(e) => updateSetting("maxTabsPerGroup", Number(e.target.value))}
+              className="w-28 h-9 px-2.5 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-sm 
+                         focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                         transition-all duration-200 shadow-sm hover:bg-zinc-800"
+            >
+              {[4, 6, 8, 10, 12, 16, 20].map((count) => (
+                <option key={count} value={count}>{count}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* History Card */}
+        <div className="bg-zinc-900/40 backdrop-blur-sm border border-zinc-800/60 rounded-xl p-6 shadow-xl space-y-3">
+          <div>
+            <h2 className="text-sm font-semibold text-zinc-200">Run History</h2>
+            <p className="text-xs text-zinc-500 mt-1">
+              The last 50 organize runs. Re-apply groups the tabs that are open now the way a past run did.
+            </p>
+          </div>
+          <HistoryPanel />
+        </div>
+
+        {/* Usage Card */}
+        <div className="bg-zinc-900/40 backdrop-blur-sm border border-zinc-800/60 rounded-xl p-6 shadow-xl space-y-3">
+          <div>
+            <h2 className="text-sm font-semibold text-zinc-200">Usage &amp; Budget</h2>
+            <p className="text-xs text-zinc-500 mt-1">
+              Tokens reported by your API on every run. Add prices to estimate what organizing costs.
+            </p>
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <label htmlFor="monthlyBudget" className="text-sm font-medium text-zinc-200">
+              Monthly budget (USD, 0 for none)
+            </label>
+            <input
+              id="monthlyBudget"
+              type="number"
+              min={0}
+              step="0.5"
+              value={settings.monthlyBudget}
+              onChange={(e) => updateSetting("monthlyBudget", Math.max(0, Number(e.target.value) || 0))}
+              className="w-28 h-9 px-2.5 bg-zinc-800/60 border border-zinc-700/50 rounded-lg text-sm 
+                         focus:outline-none focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20
+                         transition-all duration-200 shadow-sm hover:bg-zinc-800"
+            />
+          </div>
+          <UsagePanel
+            prices={settings.modelPrices}
+            onPricesChange={(prices) => updateSetting("modelPrices", prices)}
+            monthlyBudget={settings.monthlyBudget}
+          />
+        </div>
+
         <div className="flex items-center gap-3">
           <Button 
             onClick={handleSave}
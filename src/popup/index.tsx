@@ -1,8 +1,16 @@
 import { useState, useEffect, useMemo, useCallback } from "react"
 import { sendToBackground } from "@plasmohq/messaging"
 import type { UngroupResponse } from "~/background/messages/ungroup"
-import type { OrganizeResponse } from "~/background/messages/organize"
-import type { TaskState, TaskPhase } from "~/lib/types"
+import type { OrganizeRequest, OrganizeResponse } from "~/background/messages/organize"
+import type { UndoOrganizeResponse } from "~/background/messages/undoOrganize"
+import type { ApproveProposalResponse } from "~/background/messages/approveProposal"
+import type { CloseDuplicatesResponse } from "~/background/messages/closeDuplicates"
+import type { ArchiveStaleTabsResponse } from "~/background/messages/archiveStaleTabs"
+import type { TaskState, TaskPhase, GroupSnapshot, TabGroup, DuplicateSet, StaleGroup } from "~/lib/types"
+import { UNDO_STACK_KEY } from "~/lib/undo"
+import { ProposalEditor } from "~/components/ProposalEditor"
+import { SessionsPanel } from "~/components/SessionsPanel"
+import { ArchivesPanel } from "~/components/ArchivesPanel"
 import "~/style.css"
 
 const TASK_STATE_KEY = "task_state"
@@ -10,27 +18,49 @@ const TASK_STATE_KEY = "task_state"
 // Map task phases to user-friendly messages
 const PHASE_MESSAGES: Record<TaskPhase, string> = {
   "fetching-tabs": "Fetching tabs...",
+  "deduplicating": "Finding duplicates...",
   "ungrouping": "Preparing...",
+  "embedding": "Clustering tabs...",
   "calling-ai": "AI thinking...",
+  "clustering": "Grouping offline...",
   "creating-groups": "Creating groups..."
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// 1234 -> "1.2k"
+function formatTokens(count: number): string {
+  return count >= 1000 ? `${(count / 1000).toFixed(1)}k` : String(count)
+}
+
 function Popup() {
   const [taskState, setTaskState] = useState<TaskState>({ status: "idle" })
   const [debugLog, setDebugLog] = useState<string[]>([])
   const [showDebug, setShowDebug] = useState(false)
+  const [undoDepth, setUndoDepth] = useState(0)
+  const [highlightedCount, setHighlightedCount] = useState(0)
 
   // Load initial state and listen for changes
   useEffect(() => {
     // Load initial state directly from storage
-    chrome.storage.local.get(TASK_STATE_KEY).then((result) => {
+    chrome.storage.local.get([TASK_STATE_KEY, UNDO_STACK_KEY]).then((result) => {
       const state = result[TASK_STATE_KEY] as TaskState | undefined
       if (state?.status) {
         setTaskState(state)
         if (state.status === "completed" && state.result?.debug) {
           setDebugLog(state.result.debug)
         }
+        if (state.status === "awaiting-approval" && state.debug) {
+          setDebugLog(state.debug)
+        }
       }
+      const stack = result[UNDO_STACK_KEY] as GroupSnapshot[] | undefined
+      setUndoDepth(Array.isArray(stack) ? stack.length : 0)
+    })
+
+    // Offer to organize just the selection when several tabs are highlighted
+    chrome.tabs.query({ highlighted: true, currentWindow: true }).then((tabs) => {
+      setHighlightedCount(tabs.length)
     })
 
     // Listen for storage changes
@@ -45,8 +75,15 @@ function Popup() {
           if (newState.status === "completed" && newState.result?.debug) {
             setDebugLog(newState.result.debug)
           }
+          if (newState.status === "awaiting-approval" && newState.debug) {
+            setDebugLog(newState.debug)
+          }
         }
       }
+      if (areaName === "local" && changes[UNDO_STACK_KEY]) {
+        const stack = changes[UNDO_STACK_KEY].newValue as GroupSnapshot[] | undefined
+        setUndoDepth(Array.isArray(stack) ? stack.length : 0)
+      }
     }
 
     chrome.storage.onChanged.addListener(handleStorageChange)
@@ -63,6 +100,9 @@ function Popup() {
     // If there are debug logs available or shown, don't auto-dismiss
     if (debugLog.length > 0 || showDebug) return
 
+    // Keep duplicates and stale tabs on screen until the user decides
+    if (taskState.status === "completed" && (taskState.result.duplicates?.length || taskState.result.stale?.length)) return
+
     // Longer delays so users can read
     const delay = taskState.status === "completed" ? 8000 : 6000
 
@@ -72,10 +112,10 @@ function Popup() {
     }, delay)
 
     return () => clearTimeout(timeout)
-  }, [taskState.status, debugLog.length, showDebug])
+  }, [taskState, debugLog.length, showDebug])
 
   // Handle organize button click (toggle behavior)
-  const handleOrganizeClick = useCallback(async () => {
+  const handleOrganizeClick = useCallback(async (scope?: OrganizeRequest["scope"]) => {
     if (taskState.status === "running") {
       // Cancel the running task - update storage directly for immediate feedback
       const cancelledState: TaskState = { status: "cancelled", cancelledAt: Date.now() }
@@ -90,8 +130,9 @@ function Popup() {
       setTaskState(runningState)
 
       try {
-        const response = await sendToBackground<{}, OrganizeResponse>({
-          name: "organize"
+        const response = await sendToBackground<{ scope?: OrganizeRequest["scope"] }, OrganizeResponse>({
+          name: "organize",
+          body: { scope }
         })
 
         if (response?.error) {
@@ -146,9 +187,176 @@ function Popup() {
     }
   }, [taskState.status])
 
+  const handleUndo = useCallback(async () => {
+    if (taskState.status === "running" || undoDepth === 0) return
+
+    try {
+      const response = await sendToBackground<{}, UndoOrganizeResponse>({
+        name: "undoOrganize"
+      })
+
+      if (response.success) {
+        const successState: TaskState = {
+          status: "completed",
+          result: { groupCount: 0, restoredGroupCount: response.restoredGroupCount ?? 0 },
+          completedAt: Date.now()
+        }
+        await chrome.storage.local.set({ [TASK_STATE_KEY]: successState })
+        setTaskState(successState)
+      } else {
+        const errorState: TaskState = {
+          status: "error",
+          error: response.error || "Failed to undo",
+          failedAt: Date.now()
+        }
+        await chrome.storage.local.set({ [TASK_STATE_KEY]: errorState })
+        setTaskState(errorState)
+      }
+    } catch (error) {
+      const errorState: TaskState = {
+        status: "error",
+        error: error instanceof Error ? error.message : "Error",
+        failedAt: Date.now()
+      }
+      await chrome.storage.local.set({ [TASK_STATE_KEY]: errorState })
+      setTaskState(errorState)
+    }
+  }, [taskState.status, undoDepth])
+
+  const handleApprove = useCallback(async (groups: TabGroup[]) => {
+    try {
+      const response = await sendToBackground<{ groups: TabGroup[] }, ApproveProposalResponse>({
+        name: "approveProposal",
+        body: { groups }
+      })
+
+      if (!response.success) {
+        const errorState: TaskState = {
+          status: "error",
+          error: response.error || "Failed to apply groups",
+          failedAt: Date.now()
+        }
+        await chrome.storage.local.set({ [TASK_STATE_KEY]: errorState })
+        setTaskState(errorState)
+      }
+      // If applied, storage listener will handle updates
+    } catch (error) {
+      const errorState: TaskState = {
+        status: "error",
+        error: error instanceof Error ? error.message : "Error",
+        failedAt: Date.now()
+      }
+      await chrome.storage.local.set({ [TASK_STATE_KEY]: errorState })
+      setTaskState(errorState)
+    }
+  }, [])
+
+  const handleReject = useCallback(async () => {
+    sendToBackground({ name: "rejectProposal" }).catch(() => {})
+    setDebugLog([])
+    setTaskState({ status: "idle" })
+  }, [])
+
+  const handleCloseDuplicates = useCallback(async (duplicates: DuplicateSet[]) => {
+    if (taskState.status !== "completed") return
+
+    try {
+      const response = await sendToBackground<{ duplicates: DuplicateSet[] }, CloseDuplicatesResponse>({
+        name: "closeDuplicates",
+        body: { duplicates }
+      })
+
+      if (response.success) {
+        const successState: TaskState = {
+          ...taskState,
+          result: { ...taskState.result, duplicates: undefined }
+        }
+        await chrome.storage.local.set({ [TASK_STATE_KEY]: successState })
+        setTaskState(successState)
+      } else {
+        const errorState: TaskState = {
+          status: "error",
+          error: response.error || "Failed to close duplicates",
+          failedAt: Date.now()
+        }
+        await chrome.storage.local.set({ [TASK_STATE_KEY]: errorState })
+        setTaskState(errorState)
+      }
+    } catch (error) {
+      const errorState: TaskState = {
+        status: "error",
+        error: error instanceof Error ? error.message : "Error",
+        failedAt: Date.now()
+      }
+      await chrome.storage.local.set({ [TASK_STATE_KEY]: errorState })
+      setTaskState(errorState)
+    }
+  }, [taskState])
+
+  const handleKeepDuplicates = useCallback(async () => {
+    if (taskState.status !== "completed") return
+    const keptState: TaskState = {
+      ...taskState,
+      result: { ...taskState.result, duplicates: undefined }
+    }
+    await chrome.storage.local.set({ [TASK_STATE_KEY]: keptState })
+    setTaskState(keptState)
+  }, [taskState])
+
+  const handleArchiveStale = useCallback(async (stale: StaleGroup[]) => {
+    if (taskState.status !== "completed") return
+
+    try {
+      const response = await sendToBackground<{ groups: StaleGroup[] }, ArchiveStaleTabsResponse>({
+        name: "archiveStaleTabs",
+        body: { groups: stale }
+      })
+
+      if (response.success) {
+        const successState: TaskState = {
+          ...taskState,
+          result: { ...taskState.result, stale: undefined }
+        }
+        await chrome.storage.local.set({ [TASK_STATE_KEY]: successState })
+        setTaskState(successState)
+      } else {
+        const errorState: TaskState = {
+          status: "error",
+          error: response.error || "Failed to archive tabs",
+          failedAt: Date.now()
+        }
+        await chrome.storage.local.set({ [TASK_STATE_KEY]: errorState })
+        setTaskState(errorState)
+      }
+    } catch (error) {
+      const errorState: TaskState = {
+        status: "error",
+        error: error instanceof Error ? error.message : "Error",
+        failedAt: Date.now()
+      }
+      await chrome.storage.local.set({ [TASK_STATE_KEY]: errorState })
+      setTaskState(errorState)
+    }
+  }, [taskState])
+
+  const handleKeepStale = useCallback(async () => {
+    if (taskState.status !== "completed") return
+    const keptState: TaskState = {
+      ...taskState,
+      result: { ...taskState.result, stale: undefined }
+    }
+    await chrome.storage.local.set({ [TASK_STATE_KEY]: keptState })
+    setTaskState(keptState)
+  }, [taskState])
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
+      // Don't hijack typing in the proposal editor
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return
+      // A pending proposal is approved or rejected with its own buttons; keys must not discard it
+      if (taskState.status === "awaiting-approval") return
+
       // Enter or Space to organize/cancel
       if (e.key === "Enter" || e.key === " ") {
         e.preventDefault()
@@ -164,14 +372,20 @@ function Popup() {
         e.preventDefault()
         handleUngroup()
       }
+      // 'u' to undo the last organize
+      else if (e.key === "u" && taskState.status !== "running") {
+        e.preventDefault()
+        handleUndo()
+      }
     }
 
     window.addEventListener("keydown", handleKeyPress)
     return () => window.removeEventListener("keydown", handleKeyPress)
-  }, [handleOrganizeClick, handleUngroup, taskState.status])
+  }, [handleOrganizeClick, handleUngroup, handleUndo, taskState.status])
 
   // Derive UI state
   const isRunning = taskState.status === "running"
+  const isAwaitingApproval = taskState.status === "awaiting-approval"
 
   // Get status display (memoized to prevent recalculation)
   const statusDisplay = useMemo((): { text: string; color: string } => {
@@ -179,14 +393,43 @@ function Popup() {
       case "idle":
         return { text: "Ready to organize", color: "text-zinc-500" }
       case "running":
+        if (taskState.phase === "calling-ai" && (taskState.batches || taskState.stream)) {
+          const parts: string[] = []
+          if (taskState.stream) {
+            const { groups, tabs, tokens } = taskState.stream
+            parts.push(groups > 0 ? `${groups} groups · ${tabs} tabs` : `${tokens} tokens`)
+          }
+          if (taskState.batches) {
+            parts.push(`${taskState.batches.completed}/${taskState.batches.total} batches`)
+          }
+          return { text: `AI thinking... (${parts.join(" · ")})`, color: "text-blue-400" }
+        }
         return { text: PHASE_MESSAGES[taskState.phase], color: "text-blue-400" }
-      case "completed":
+      case "completed": {
+        if (taskState.result.restoredGroupCount !== undefined) {
+          return {
+            text: `Undone — ${taskState.result.restoredGroupCount} groups restored`,
+            color: "text-emerald-400"
+          }
+        }
+        const duplicateCount = taskState.result.duplicateCount ?? 0
+        const duplicateNote = duplicateCount > 0 ? ` · ${duplicateCount} duplicates` : ""
+        const staleCount = taskState.result.stale?.reduce((sum, group) => sum + group.tabIds.length, 0) ?? 0
+        const staleNote = staleCount > 0 ? ` · ${staleCount} stale` : ""
+        const offlineNote = taskState.result.offline ? " offline" : ""
+        const { usage, cost } = taskState.result
+        const usageNote = cost !== undefined
+          ? ` · $${cost.toFixed(4)}`
+          : usage ? ` · ${formatTokens(usage.promptTokens + usage.completionTokens)} tokens` : ""
         return {
           text: taskState.result.groupCount > 0
-            ? `Done — ${taskState.result.groupCount} groups created`
+            ? `Done — ${taskState.result.groupCount} groups created${offlineNote}${duplicateNote}${staleNote}${usageNote}`
             : "Done — Ungrouped",
           color: "text-emerald-400"
         }
+      }
+      case "awaiting-approval":
+        return { text: `Review ${taskState.proposal.length} proposed groups`, color: "text-blue-400" }
       case "cancelled":
         return { text: "Cancelled", color: "text-yellow-400" }
       case "error":
@@ -262,9 +505,9 @@ function Popup() {
       <div className="flex gap-2 mb-3">
         <button
           onClick={handleUngroup}
-          disabled={isRunning}
+          disabled={isRunning || isAwaitingApproval}
           aria-label="Clear all tab groups"
-          aria-disabled={isRunning}
+          aria-disabled={isRunning || isAwaitingApproval}
           title="Clear all groups (C or Delete)"
           className="h-11 px-4 text-xs font-medium text-zinc-400 bg-zinc-800/60 rounded-lg
                      border border-zinc-700/50 hover:bg-zinc-700/60 hover:text-zinc-200 
@@ -278,12 +521,32 @@ function Popup() {
           Clear
         </button>
         <button
-          onClick={handleOrganizeClick}
+          onClick={handleUndo}
+          disabled={isRunning || isAwaitingApproval || undoDepth === 0}
+          aria-label="Undo last organize"
+          aria-disabled={isRunning || isAwaitingApproval || undoDepth === 0}
+          title={undoDepth > 0 ? `Restore previous groups (U) — ${undoDepth} available` : "Nothing to undo"}
+          className="h-11 px-4 text-xs font-medium text-zinc-400 bg-zinc-800/60 rounded-lg
+                     border border-zinc-700/50 hover:bg-zinc-700/60 hover:text-zinc-200 
+                     hover:border-zinc-600/50 disabled:opacity-50 disabled:cursor-not-allowed 
+                     transition-all duration-200 shadow-sm hover:shadow-md hover:scale-[1.02]
+                     active:scale-[0.98] flex items-center gap-1.5"
+        >
+          <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+          </svg>
+          Undo
+        </button>
+        <button
+          onClick={() => handleOrganizeClick()}
+          disabled={isAwaitingApproval}
           aria-label={isRunning ? "Cancel organization" : "Organize tabs"}
+          aria-disabled={isAwaitingApproval}
           title={isRunning ? "Cancel (Esc)" : "Organize tabs (Enter)"}
           className={`flex-1 h-11 text-sm font-semibold rounded-lg transition-all duration-200
                       flex items-center justify-center gap-2 shadow-md hover:shadow-lg
                       hover:scale-[1.02] active:scale-[0.98]
+                      disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100
                       ${isRunning
                         ? "bg-gradient-to-r from-red-600 to-red-500 hover:from-red-500 hover:to-red-400 text-white"
                         : "bg-gradient-to-r from-zinc-100 to-zinc-50 text-zinc-900 hover:from-white hover:to-zinc-100"
@@ -308,6 +571,18 @@ function Popup() {
         </button>
       </div>
 
+      {highlightedCount > 1 && !isRunning && !isAwaitingApproval && (
+        <button
+          onClick={() => handleOrganizeClick("highlighted")}
+          title="Group only the highlighted tabs and leave other groups as they are"
+          className="w-full h-8 mb-3 text-xs font-medium text-zinc-400 bg-zinc-800/60 rounded-lg
+                     border border-zinc-700/50 hover:bg-zinc-700/60 hover:text-zinc-200
+                     hover:border-zinc-600/50 transition-all duration-200"
+        >
+          Organize {highlightedCount} selected tabs only
+        </button>
+      )}
+
       {/* Status Display */}
       <div 
         className={`px-3 py-2.5 rounded-lg border backdrop-blur-sm overflow-hidden transition-all duration-200 ${
@@ -339,6 +614,11 @@ function Popup() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
               </svg>
             )}
+            {taskState.status === "awaiting-approval" && (
+              <svg className="w-3.5 h-3.5 text-blue-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0zM2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+              </svg>
+            )}
             {taskState.status === "running" && (
               <svg className="w-3.5 h-3.5 text-blue-400 animate-pulse" fill="currentColor" viewBox="0 0 24 24">
                 <circle cx="12" cy="12" r="3" />
@@ -358,6 +638,79 @@ function Popup() {
           </div>
         </div>
 
+        {taskState.status === "completed" && taskState.result.duplicates && taskState.result.duplicates.length > 0 && (
+          <div className="mt-3 space-y-2">
+            <ul className="max-h-32 overflow-auto space-y-1 pr-1">
+              {taskState.result.duplicates.map((duplicate) => (
+                <li key={duplicate.url} className="flex items-center gap-1.5 text-[11px] text-zinc-400">
+                  <span className="flex-1 min-w-0 truncate" title={duplicate.url}>{duplicate.title}</span>
+                  <span className="text-zinc-500">×{duplicate.duplicateTabIds.length + 1}</span>
+                </li>
+              ))}
+            </ul>
+            <div className="flex gap-2">
+              <button
+                onClick={handleKeepDuplicates}
+                className="h-8 px-3 text-[11px] font-medium text-zinc-400 bg-zinc-800/60 rounded-lg
+                           border border-zinc-700/50 hover:bg-zinc-700/60 hover:text-zinc-200 transition-all duration-200"
+              >
+                Keep
+              </button>
+              <button
+                onClick={() => taskState.result.duplicates && handleCloseDuplicates(taskState.result.duplicates)}
+                className="flex-1 h-8 text-[11px] font-semibold rounded-lg transition-all duration-200
+                           bg-gradient-to-r from-zinc-100 to-zinc-50 text-zinc-900 hover:from-white hover:to-zinc-100"
+              >
+                Close {taskState.result.duplicateCount ?? 0} duplicate tabs
+              </button>
+            </div>
+          </div>
+        )}
+
+        {taskState.status === "completed" && taskState.result.stale && taskState.result.stale.length > 0 && (
+          <div className="mt-3 space-y-2">
+            <p className="text-[11px] text-zinc-400">Not visited lately:</p>
+            <ul className="max-h-32 overflow-auto space-y-1 pr-1">
+              {taskState.result.stale.map((group) => (
+                <li key={`${group.name}-${group.tabIds[0]}`} className="flex items-center gap-1.5 text-[11px] text-zinc-400">
+                  <span className="flex-1 min-w-0 truncate" title={group.name}>
+                    {group.name}{group.wholeGroup ? " (whole group)" : ""}
+                  </span>
+                  <span className="text-zinc-500">
+                    {group.tabIds.length} tabs · {Math.floor((Date.now() - group.lastAccessed) / DAY_MS)}d
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <div className="flex gap-2">
+              <button
+                onClick={handleKeepStale}
+                className="h-8 px-3 text-[11px] font-medium text-zinc-400 bg-zinc-800/60 rounded-lg
+                           border border-zinc-700/50 hover:bg-zinc-700/60 hover:text-zinc-200 transition-all duration-200"
+              >
+                Keep
+              </button>
+              <button
+                onClick={() => taskState.result.stale && handleArchiveStale(taskState.result.stale)}
+                title="Bookmark into dated folders, then close"
+                className="flex-1 h-8 text-[11px] font-semibold rounded-lg transition-all duration-200
+                           bg-gradient-to-r from-zinc-100 to-zinc-50 text-zinc-900 hover:from-white hover:to-zinc-100"
+              >
+                Archive {taskState.result.stale.reduce((sum, group) => sum + group.tabIds.length, 0)} stale tabs
+              </button>
+            </div>
+          </div>
+        )}
+
+        {taskState.status === "awaiting-approval" && (
+          <ProposalEditor
+            proposal={taskState.proposal}
+            tabTitles={taskState.tabTitles}
+            onApprove={handleApprove}
+            onReject={handleReject}
+          />
+        )}
+
         {debugLog.length > 0 && (
           <button
             onClick={() => setShowDebug(!showDebug)}
@@ -377,6 +730,9 @@ function Popup() {
           </pre>
         )}
       </div>
+
+      <SessionsPanel />
+      <ArchivesPanel />
     </div>
   )
 }